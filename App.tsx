@@ -1,25 +1,78 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Upload, Music, ArrowUp, ArrowDown, X, Play, Download, Wand2, Radio, Loader2, Globe, Key, Settings, ZapOff } from 'lucide-react';
-// @ts-ignore - external lib
-import { Mp3Encoder } from '@breezystack/lamejs';
-import { Track, VibeType, ProcessingState, Language } from './types';
-import { decodeAudio, extractPCM16 } from './utils/audio';
-import { generateIntroAudio, sortTracksSmartly } from './services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Upload, Music, ArrowUp, ArrowDown, X, Play, Download, Wand2, Radio, Loader2, Globe, Key, Settings, ZapOff, Shuffle, Gauge, Scissors, Layers, Repeat, ListMusic, FolderOpen, Copy, Trash2, Save, Package, Square, FileText, SlidersHorizontal } from 'lucide-react';
+import { Track, VibeType, ProcessingState, Language, CrossfadeSettings, FadeCurve, TransitionRule, LoudnessSettings, SilenceTrimSettings, DuckingSettings, RecurrenceRule, ExportSettings, FillSettings, DayPart, DayPartSettings, SplitSettings, AiSettings, AiProviderKind, TrackEffects, MasterSettings, DownmixMode, LiveSettings } from './types';
+import { decodeAudio, formatDuration, resampleBuffer } from './utils/audio';
+import { DEFAULT_CROSSFADE, resolveTransition } from './utils/crossfade';
+import { DEFAULT_LOUDNESS, normalizationGain } from './utils/loudness';
+import { DEFAULT_SILENCE_TRIM } from './utils/silence';
+import { prepareTrack } from './utils/prepare';
+import { activeEffects, renderEffects, tempoLengthFactor } from './utils/effects';
+import { DEFAULT_DUCKING, buildTimeline, isOverlay, previousMainTrack } from './utils/timeline';
+import { createWorkerEncoder } from './utils/encoderWorker';
+import { ExportTarget, canSaveToFile, createExportSink, downloadBlob } from './utils/exportSink';
+import { TRACKLIST_FORMATS, downloadText, exportBaseName } from './utils/tracklist';
+import { DEFAULT_EXPORT, EXPORT_PRESETS, ExportPreset, MP3_BITRATES, SAMPLE_RATES, exportFileType, matchPreset } from './utils/exportSettings';
+import { DEFAULT_RECURRENCE, isRecurring } from './utils/schedule';
+import { DEFAULT_FILL, newFillSeed } from './utils/fill';
+import { DEFAULT_SPLIT, MIN_PART_LIMIT, isValidSplit } from './utils/split';
+import { DEFAULT_MASTER, reducesTo16Bit } from './utils/limiter';
+import { DEFAULT_LIVE } from './utils/live';
+import { DEFAULT_DAY_PARTS, blockTracks, dayPartsActive, orderedBlocks } from './utils/dayparts';
+import { MergeConfig, MergePlatform, MergedFile, arrangeQueue, runMerge, singleFileName } from './utils/merge';
+import { Project, ProjectSummary, deleteProject, duplicateProject, exportProjectFile, importProjectFile, listProjects, loadProject, newProjectId, restoreTracks, saveProject, storeTracks } from './utils/projects';
+import { probeAudioFile, tagLabel } from './utils/metadata';
+import { DEFAULT_TEMPLATE_VALUES } from './utils/templates';
+import { analyzeFeatures, cacheFeatures, cachedFeatures, sortByFeatures } from './utils/analysis';
+import { playChannels, renderTransition } from './utils/preview';
+import { DEFAULT_AI_SETTINGS, DEFAULT_VOICE, createProvider, generateIntroScript, loadAiSettings, saveAiSettings, sortTracksSmartly, synthesizeSpeech } from './services/geminiService';
+import { aiErrorMessage } from './services/aiProvider';
 import { translations } from './utils/i18n';
+import TrackPreview from './components/TrackPreview';
+import IntroStudio, { VoiceoverTake } from './components/IntroStudio';
+import AnnouncementTemplates from './components/AnnouncementTemplates';
+import DayPartsPanel from './components/DayPartsPanel';
+import TrackEffectsEditor from './components/TrackEffectsEditor';
+import LivePanel from './components/LivePanel';
 
 const App: React.FC = () => {
   const [tracks, setTracks] = useState<Track[]>([]);
   const [storeName, setStoreName] = useState('My Store');
   const [selectedVibe, setSelectedVibe] = useState<VibeType>(VibeType.RELAXED);
   const [processing, setProcessing] = useState<ProcessingState>({ status: 'idle', message: '', progress: 0 });
-  const [mergedBlob, setMergedBlob] = useState<Blob | null>(null);
+  const [exportFiles, setExportFiles] = useState<MergedFile[]>([]); // Files of the last export
+  const [exportTarget, setExportTarget] = useState<ExportTarget>('download');
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT);
   const [lang, setLang] = useState<Language>('zh'); 
   const [apiKey, setApiKey] = useState('');
+  const [aiSettings, setAiSettings] = useState<AiSettings>(DEFAULT_AI_SETTINGS);
+  const [crossfade, setCrossfade] = useState<CrossfadeSettings>(DEFAULT_CROSSFADE);
+  const [editingTransition, setEditingTransition] = useState<string | null>(null);
+  const [editingRecurrence, setEditingRecurrence] = useState<string | null>(null);
+  const [editingEffects, setEditingEffects] = useState<string | null>(null);
+  const [cancelController, setCancelController] = useState<AbortController | null>(null);
+  const [loudness, setLoudness] = useState<LoudnessSettings>(DEFAULT_LOUDNESS);
+  const [silenceTrim, setSilenceTrim] = useState<SilenceTrimSettings>(DEFAULT_SILENCE_TRIM);
+  const [ducking, setDucking] = useState<DuckingSettings>(DEFAULT_DUCKING);
+  const [fill, setFill] = useState<FillSettings>(DEFAULT_FILL);
+  const [dayParts, setDayParts] = useState<DayPartSettings>(DEFAULT_DAY_PARTS);
+  const [split, setSplit] = useState<SplitSettings>(DEFAULT_SPLIT);
+  const [master, setMaster] = useState<MasterSettings>(DEFAULT_MASTER);
+  const [live, setLive] = useState<LiveSettings>(DEFAULT_LIVE);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null); // Saved project the queue belongs to
+  const [projectName, setProjectName] = useState('');
+  const [projectBusy, setProjectBusy] = useState(false);
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null); // Shown in the preview panel
+  // trackId when regenerating a voiceover, name and script when recording an announcement template, dayPartId for a block's intro
+  const [introStudio, setIntroStudio] = useState<{ trackId: string | null, name?: string, script?: string, dayPartId?: string } | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>(DEFAULT_TEMPLATE_VALUES);
+  const [transitionPreview, setTransitionPreview] = useState<{ trackId: string, playing: boolean } | null>(null);
   
   const t = translations[lang];
 
   // Ref for AudioContext
   const audioCtxRef = useRef<AudioContext | null>(null);
+  const transitionSourceRef = useRef<AudioBufferSourceNode | null>(null);
 
   const getAudioContext = () => {
     if (!audioCtxRef.current) {
@@ -28,18 +81,41 @@ const App: React.FC = () => {
     return audioCtxRef.current;
   };
 
-  // Load API Key from localStorage on mount
+  // Load API Key and export preset from localStorage on mount
   useEffect(() => {
     const savedKey = localStorage.getItem('gemini_api_key');
     if (savedKey) setApiKey(savedKey);
+    setAiSettings(loadAiSettings());
+    const savedExport = localStorage.getItem('export_settings');
+    if (savedExport) setExportSettings({ ...DEFAULT_EXPORT, ...JSON.parse(savedExport) });
+    listProjects().then(setProjects).catch(e => console.warn('Saved projects unavailable', e));
   }, []);
 
+  const updateExportSettings = (changes: Partial<ExportSettings>) => {
+    setExportSettings(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem('export_settings', JSON.stringify(next));
+      return next;
+    });
+  };
+
   const handleApiKeyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newKey = e.target.value;
     setApiKey(newKey);
     localStorage.setItem('gemini_api_key', newKey);
   };
 
+  const updateAiSettings = (changes: Partial<AiSettings>) => {
+    setAiSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveAiSettings(next);
+      return next;
+    });
+  };
+
+  // null when the AI features can't be used, i.e. Gemini without a key
+  const ai = useMemo(() => createProvider(aiSettings, apiKey), [aiSettings, apiKey]);
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files) return;
@@ -58,10 +134,27 @@ const App: React.FC = () => {
     });
 
     setTracks(prev => [...prev, ...newTracks]);
+
+    // Fill in lengths and tags from the headers, without decoding the audio
+    for (const track of newTracks) {
+      const { duration, title, artist } = await probeAudioFile(track.file!);
+      applyTrackUpdates({ [track.id]: { duration, title, artist, name: tagLabel({ title, artist }, track.name) } });
+    }
   };
 
   const removeTrack = (id: string) => {
     setTracks(prev => prev.filter(t => t.id !== id));
+    setCrossfade(prev => {
+      const { [id]: _removed, ...overrides } = prev.overrides;
+      return { ...prev, overrides };
+    });
+  };
+
+  const updateTransitionOverride = (trackId: string, rule: TransitionRule | null) => {
+    setCrossfade(prev => {
+      const { [trackId]: _previous, ...overrides } = prev.overrides;
+      return { ...prev, overrides: rule ? { ...overrides, [trackId]: rule } : overrides };
+    });
   };
 
   const moveTrack = (index: number, direction: 'up' | 'down') => {
@@ -74,129 +167,479 @@ const App: React.FC = () => {
     setTracks(newTracks);
   };
 
-  const handleSmartSort = async () => {
-    if (!apiKey) {
-        alert(t.apiKeyMissing);
+  // Without a key, songs are ordered by their own audio: tempo, energy and brightness
+  const handleLocalSort = async () => {
+    const pending = tracks.filter(track => track.type === 'music' && !track.features);
+    const updates: Record<string, Partial<Track>> = {};
+    const { signal } = startCancellable();
+    try {
+      const ctx = getAudioContext();
+      for (let i = 0; i < pending.length; i++) {
+        const track = pending[i];
+        setProcessing({ status: 'analyzing', message: t.analyzingTrack(i + 1, pending.length, track.name), progress: (i / pending.length) * 100 });
+        await new Promise(r => setTimeout(r, 50));
+        signal.throwIfAborted();
+
+        if (!track.file) continue;
+        const features = cachedFeatures(track.file) ?? analyzeFeatures(await decodeAudio(track.file, ctx));
+        cacheFeatures(track.file, features);
+        updates[track.id] = { features, duration: track.duration || features.duration };
+      }
+
+      setTracks(prev => sortByFeatures(prev.map(t => updates[t.id] ? { ...t, ...updates[t.id] } : t), selectedVibe));
+      setProcessing({ status: 'idle', message: '', progress: 0 });
+    } catch (e: any) {
+      applyTrackUpdates(updates);
+      if (signal.aborted) {
+        setProcessing({ status: 'idle', message: '', progress: 0 });
         return;
+      }
+      console.error(e);
+      setProcessing({ status: 'error', message: t.statusSortError + e.message, progress: 0 });
+    } finally {
+      setCancelController(null);
     }
+  };
+
+  const handleSmartSort = async () => {
     if (tracks.length < 2) return;
+    if (!ai) {
+        await handleLocalSort();
+        return;
+    }
     setProcessing({ status: 'analyzing', message: t.statusAnalyzing, progress: 10 });
+    const { signal } = startCancellable();
     try {
-      const sorted = await sortTracksSmartly(apiKey, tracks, selectedVibe);
+      const sorted = await sortTracksSmartly(ai, tracks, selectedVibe, { signal });
       setTracks(sorted);
       setProcessing({ status: 'idle', message: '', progress: 0 });
     } catch (e: any) {
+      if (signal.aborted) {
+        setProcessing({ status: 'idle', message: '', progress: 0 });
+        return;
+      }
       console.error(e);
-      setProcessing({ status: 'error', message: t.statusSortError + e.message, progress: 0 });
+      setProcessing({ status: 'error', message: t.statusSortError + aiErrorMessage(e, t.aiErrors), progress: 0 });
+    } finally {
+      setCancelController(null);
     }
   };
 
-  const handleAddIntro = async () => {
-    if (!apiKey) {
+  const handleAddIntro = () => {
+    if (!ai) {
         alert(t.apiKeyMissing);
         return;
     }
-    setProcessing({ status: 'generating_tts', message: t.statusGenTTS, progress: 20 });
-    try {
-        const ctx = getAudioContext();
-        if (ctx.state === 'suspended') await ctx.resume();
+    setIntroStudio({ trackId: null });
+  };
 
-        const trackNames = tracks.filter(t => t.type === 'music').map(t => t.name);
-        const buffer = await generateIntroAudio(apiKey, storeName, selectedVibe, trackNames, ctx, lang);
-        
+  const handleRecordAnnouncement = (name: string, script: string) => {
+    if (!ai) {
+        alert(t.apiKeyMissing);
+        return;
+    }
+    setIntroStudio({ trackId: null, name, script });
+  };
+
+  const songNames = (songs: Track[]) => songs.map(t => t.title ? (t.artist ? `"${t.title}" by ${t.artist}` : t.title) : t.name);
+
+  // A block's intro is written for the block's vibe and songs
+  const writeIntroScript = (maxWords: number, signal: AbortSignal) => {
+    const block = dayParts.blocks.find(b => b.id === introStudio?.dayPartId);
+    const songs = block ? blockTracks(block, tracks).songs : tracks.filter(t => t.type === 'music');
+    return generateIntroScript(ai!, storeName, block?.vibe ?? selectedVibe, songNames(songs), lang, maxWords, { signal });
+  };
+
+  const setBlockIntros = (introIds: Record<string, string>) => {
+    setDayParts(prev => ({ ...prev, blocks: prev.blocks.map(b => introIds[b.id] ? { ...b, introId: introIds[b.id] } : b) }));
+  };
+
+  // A take either becomes a new intro or replaces the audio of the voiceover it was regenerated from
+  const handleTakeChosen = ({ buffer, script, voice }: VoiceoverTake) => {
+    const trackId = introStudio?.trackId;
+    const block = dayParts.blocks.find(b => b.id === introStudio?.dayPartId);
+    if (trackId) {
+        applyTrackUpdates({ [trackId]: { buffer, duration: buffer.duration, script, voice, loudness: undefined, silenceTrim: undefined, inPoint: undefined, outPoint: undefined } });
+    } else {
         const introTrack: Track = {
             id: 'intro-' + Date.now(),
             file: null,
             buffer: buffer,
-            name: t.aiIntroName(storeName),
+            name: block ? t.blockIntroName(block.name) : introStudio?.name ?? t.aiIntroName(storeName),
             duration: buffer.duration,
-            type: 'voiceover'
+            type: 'voiceover',
+            script,
+            voice
         };
+        if (block) {
+            // Only its own block opens with it, so it goes at the end of the library
+            setTracks(prev => [...prev, introTrack]);
+            setBlockIntros({ [block.id]: introTrack.id });
+        } else {
+            setTracks(prev => [introTrack, ...prev]);
+        }
+    }
+    setIntroStudio(null);
+  };
+
+  const handleBlockIntro = (block: DayPart) => {
+    if (!ai) {
+        alert(t.apiKeyMissing);
+        return;
+    }
+    const intro = blockTracks(block, tracks).intro;
+    setIntroStudio({ trackId: intro?.id ?? null, dayPartId: block.id });
+  };
 
-        setTracks(prev => [introTrack, ...prev]);
+  // Writes and records an intro for every block that doesn't have one yet, in the default voice
+  const handleWriteMissingIntros = async () => {
+    if (!ai) {
+        alert(t.apiKeyMissing);
+        return;
+    }
+    const pending = orderedBlocks(dayParts.blocks).filter(block => !blockTracks(block, tracks).intro);
+    const added: Track[] = [];
+    const introIds: Record<string, string> = {};
+    const { signal } = startCancellable();
+    try {
+      const ctx = getAudioContext();
+      for (let i = 0; i < pending.length; i++) {
+        const block = pending[i];
+        setProcessing({ status: 'generating_tts', message: t.writingBlockIntro(i + 1, pending.length, block.name), progress: (i / pending.length) * 100 });
+        const script = await generateIntroScript(ai, storeName, block.vibe, songNames(blockTracks(block, tracks).songs), lang, undefined, { signal });
+        const buffer = await synthesizeSpeech(ai, script, DEFAULT_VOICE, ctx, { signal });
+        const id = `intro-${Date.now()}-${i}`;
+        added.push({ id, file: null, buffer, name: t.blockIntroName(block.name), duration: buffer.duration, type: 'voiceover', script, voice: DEFAULT_VOICE });
+        introIds[block.id] = id;
+      }
+      setProcessing({ status: 'idle', message: '', progress: 0 });
+    } catch (e: any) {
+      if (signal.aborted) {
         setProcessing({ status: 'idle', message: '', progress: 0 });
+        return;
+      }
+      console.error(e);
+      setProcessing({ status: 'error', message: t.statusTTSError + aiErrorMessage(e, t.aiErrors), progress: 0 });
+    } finally {
+      // Intros that finished before a failure or cancel are kept
+      setTracks(prev => [...prev, ...added]);
+      setBlockIntros(introIds);
+      setCancelController(null);
+    }
+  };
 
+  // Projects: the queue and its settings, kept in IndexedDB across reloads
+  const runProjectAction = async (action: () => Promise<void>) => {
+    setProjectBusy(true);
+    try {
+      await action();
+      setProjects(await listProjects());
     } catch (e: any) {
-        setProcessing({ status: 'error', message: t.statusTTSError + e.message, progress: 0 });
+      console.error(e);
+      setProcessing({ status: 'error', message: t.projectError + (e.message || "Unknown error"), progress: 0 });
+    } finally {
+      setProjectBusy(false);
     }
   };
 
-  const processMerge = async () => {
-    if (tracks.length === 0) return;
-    
-    setProcessing({ status: 'decoding', message: t.statusDecoding, progress: 0 });
-    setMergedBlob(null);
+  const currentProject = (id: string, name: string): Project => ({
+    id,
+    name,
+    updatedAt: Date.now(),
+    storeName,
+    vibe: selectedVibe,
+    tracks: storeTracks(tracks),
+    exportSettings,
+    templateValues,
+    dayParts,
+    split,
+    master,
+    live,
+    crossfade,
+    ducking,
+    loudness,
+    silenceTrim,
+    fill,
+  });
+
+  const handleSaveProject = () => runProjectAction(async () => {
+    const id = projectId ?? newProjectId();
+    const name = projectName.trim() || storeName;
+    await saveProject(currentProject(id, name));
+    setProjectId(id);
+    setProjectName(name);
+  });
+
+  const openProject = async (project: Project) => {
+    const ctx = getAudioContext();
+    setTracks(await restoreTracks(project.tracks, ctx));
+    setStoreName(project.storeName);
+    setSelectedVibe(project.vibe);
+    updateExportSettings(project.exportSettings);
+    setTemplateValues(project.templateValues ?? DEFAULT_TEMPLATE_VALUES);
+    setDayParts(project.dayParts ?? DEFAULT_DAY_PARTS);
+    setSplit(project.split ?? DEFAULT_SPLIT);
+    setMaster(project.master ?? DEFAULT_MASTER);
+    setLive(project.live ?? DEFAULT_LIVE);
+    setCrossfade(project.crossfade ?? DEFAULT_CROSSFADE);
+    setDucking(project.ducking ?? DEFAULT_DUCKING);
+    setLoudness(project.loudness ?? DEFAULT_LOUDNESS);
+    setSilenceTrim(project.silenceTrim ?? DEFAULT_SILENCE_TRIM);
+    setFill(project.fill ?? DEFAULT_FILL);
+    setProjectId(project.id);
+    setProjectName(project.name);
+    setSelectedTrackId(null);
+    setExportFiles([]);
+    setProcessing({ status: 'idle', message: '', progress: 0 });
+  };
+
+  const handleOpenProject = (id: string) => runProjectAction(async () => {
+    await openProject(await loadProject(id));
+  });
+
+  const handleDuplicateProject = (project: ProjectSummary) => runProjectAction(async () => {
+    await duplicateProject(project.id, t.projectCopyName(project.name));
+  });
+
+  const handleDeleteProject = (project: ProjectSummary) => {
+    if (!confirm(t.confirmDeleteProject(project.name))) return;
+    runProjectAction(async () => {
+      await deleteProject(project.id);
+      if (project.id === projectId) setProjectId(null);
+    });
+  };
+
+  const handleExportProjectFile = () => runProjectAction(async () => {
+    const name = projectName.trim() || storeName;
+    downloadBlob(`${name}.storecast.zip`, await exportProjectFile(currentProject(projectId ?? newProjectId(), name)));
+  });
+
+  const handleImportProjectFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    runProjectAction(async () => {
+      const project = await importProjectFile(file);
+      await saveProject(project);
+      await openProject(project);
+    });
+  };
+
+  const updateRecurrence = (id: string, recurrence: RecurrenceRule | undefined) => {
+    setTracks(prev => prev.map(t => t.id === id ? { ...t, recurrence } : t));
+  };
+
+  const updateEffects = (id: string, effects: TrackEffects | undefined) => {
+    setTracks(prev => prev.map(t => t.id === id ? { ...t, effects } : t));
+  };
+
+  // The cached loudness was measured on the old downmix
+  const updateDownmix = (id: string, downmix: DownmixMode | undefined) => {
+    setTracks(prev => prev.map(t => t.id === id ? { ...t, downmix, loudness: undefined } : t));
+  };
 
+  const toggleOverlay = (id: string) => {
+    setTracks(prev => prev.map(t => t.id === id ? { ...t, overlay: !t.overlay } : t));
+  };
+
+  // In/out points change what silence trimming sees, so its last result no longer applies
+  const updateTrimPoints = (id: string, inPoint: number | undefined, outPoint: number | undefined) => {
+    setTracks(prev => prev.map(t => t.id === id ? { ...t, inPoint, outPoint, silenceTrim: undefined } : t));
+  };
+
+  const stopTransitionPreview = () => {
+    if (transitionSourceRef.current) {
+      transitionSourceRef.current.onended = null;
+      transitionSourceRef.current.stop();
+      transitionSourceRef.current = null;
+    }
+    setTransitionPreview(null);
+  };
+
+  // A track as the export would mix it, at the rate of the playback context
+  const preparePlayback = async (track: Track) => {
+    const ctx = getAudioContext();
+    const buffer = track.buffer ? await resampleBuffer(track.buffer, ctx.sampleRate) : track.file ? await decodeAudio(track.file, ctx) : null;
+    if (!buffer) return null;
+    const { channels } = prepareTrack(buffer, track, { silenceTrim, loudness, channels: exportSettings.channels });
+    return activeEffects(track.effects).length > 0 ? await renderEffects(channels, ctx.sampleRate, track.effects!) : channels;
+  };
+
+  // Plays the end of `from` into the start of `to`, prepared and mixed the way the export does it
+  const handlePreviewTransition = async (from: Track, to: Track) => {
+    stopTransitionPreview();
+    setTransitionPreview({ trackId: to.id, playing: false });
     try {
       const ctx = getAudioContext();
       if (ctx.state === 'suspended') await ctx.resume();
+      const prepare = async (track: Track) => {
+        const channels = await preparePlayback(track);
+        if (!channels) throw new Error(`Could not decode ${track.name}`);
+        return { track, channels };
+      };
+      const mix = await renderTransition(await prepare(from), await prepare(to), ctx.sampleRate, crossfade, ducking);
 
-      // Initialize MP3 Encoder
-      // Stereo (2 channels), Sample Rate from context, 128kbps
-      const mp3Encoder = new Mp3Encoder(2, ctx.sampleRate, 128);
-      const mp3Chunks: Int8Array[] = [];
-
-      for (let i = 0; i < tracks.length; i++) {
-        const track = tracks[i];
-        setProcessing({ 
-            status: 'decoding', 
-            message: t.processingTrack(i + 1, tracks.length, track.name), 
-            progress: (i / tracks.length) * 80 
-        });
+      const source = playChannels(ctx, mix, ctx.sampleRate);
+      source.onended = () => {
+        transitionSourceRef.current = null;
+        setTransitionPreview(null);
+      };
+      transitionSourceRef.current = source;
+      setTransitionPreview({ trackId: to.id, playing: true });
+    } catch (e: any) {
+      console.error(e);
+      setTransitionPreview(null);
+      setProcessing({ status: 'error', message: t.previewError + " (" + (e.message || "Unknown error") + ")", progress: 0 });
+    }
+  };
 
-        // Small delay to allow UI to update and GC to run
-        await new Promise(r => setTimeout(r, 50));
+  const toggleKeepSilence = (id: string) => {
+    setTracks(prev => prev.map(t => t.id === id ? { ...t, keepSilence: !t.keepSilence } : t));
+  };
 
-        let buffer: AudioBuffer | null = null;
+  const applyTrackUpdates = (updates: Record<string, Partial<Track>>) => {
+    setTracks(prev => prev.map(t => updates[t.id] ? { ...t, ...updates[t.id] } : t));
+  };
 
-        if (track.buffer) {
-            buffer = track.buffer;
-        } else if (track.file) {
-            buffer = await decodeAudio(track.file, ctx);
-        }
+  // Long-running local work (analysis, merging) can be stopped from the progress bar
+  const startCancellable = () => {
+    const controller = new AbortController();
+    setCancelController(controller);
+    return controller;
+  };
+
+  const needsAnalysis = (track: Track) => !track.duration || (loudness.enabled && !track.loudness);
+
+  // Length the track will have in the mix, once its silence is trimmed and its tempo changed
+  const plannedDuration = (track: Track) => {
+    const trim = silenceTrim.enabled && !track.keepSilence ? track.silenceTrim : undefined;
+    const kept = Math.min(track.outPoint ?? track.duration, track.duration) - (track.inPoint ?? 0);
+    return Math.max(0, kept - (trim ? trim.start + trim.end : 0)) * tempoLengthFactor(track.effects);
+  };
+
+  const handleAnalyze = async () => {
+    const pending = tracks.filter(needsAnalysis);
+    if (pending.length === 0) return;
 
+    const updates: Record<string, Partial<Track>> = {};
+    const { signal } = startCancellable();
+    try {
+      const ctx = getAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+
+      for (let i = 0; i < pending.length; i++) {
+        const track = pending[i];
+        setProcessing({ status: 'analyzing', message: t.analyzingTrack(i + 1, pending.length, track.name), progress: (i / pending.length) * 100 });
+        await new Promise(r => setTimeout(r, 50));
+        signal.throwIfAborted();
+
+        const buffer = track.buffer ?? (track.file ? await decodeAudio(track.file, ctx) : null);
         if (buffer) {
-            // Encode to MP3 immediately per track to save memory
-            setProcessing({ 
-                status: 'merging', 
-                message: `${t.processingTrack(i + 1, tracks.length, track.name)} (MP3...)`, 
-                progress: ((i / tracks.length) * 80) + 5
-            });
-
-            const { left, right } = extractPCM16(buffer);
-            
-            // Encode buffer
-            const mp3Buf = mp3Encoder.encodeBuffer(left, right);
-            if (mp3Buf.length > 0) {
-                mp3Chunks.push(mp3Buf);
-            }
-            
-            // Explicitly release memory
-            buffer = null; 
+          const prepared = prepareTrack(buffer, track, { silenceTrim, loudness, channels: exportSettings.channels });
+          updates[track.id] = { duration: prepared.duration, silenceTrim: prepared.silenceTrim, loudness: prepared.loudness };
         }
       }
 
-      setProcessing({ status: 'merging', message: t.statusEncoding, progress: 95 });
-      await new Promise(r => setTimeout(r, 50));
-
-      // Finalize MP3
-      const endBuf = mp3Encoder.flush();
-      if (endBuf.length > 0) {
-          mp3Chunks.push(endBuf);
+      applyTrackUpdates(updates);
+      setProcessing({ status: 'idle', message: '', progress: 0 });
+    } catch (e: any) {
+      applyTrackUpdates(updates);
+      if (signal.aborted) {
+        setProcessing({ status: 'idle', message: '', progress: 0 });
+        return;
       }
+      console.error(e);
+      setProcessing({ status: 'error', message: t.statusError + " (" + (e.message || "Unknown error") + ")", progress: 0 });
+    } finally {
+      setCancelController(null);
+    }
+  };
+
+  // With day parts the queue is only the library, each block picks its own songs from it
+  const useDayParts = dayPartsActive(dayParts);
+
+  const mergeConfig = (): MergeConfig => ({
+    tracks, storeName, vibe: selectedVibe, language: lang, date: new Date().toISOString().slice(0,10),
+    crossfade, ducking, loudness, silenceTrim, master, fill, dayParts, split, exportSettings,
+  });
+
+  // The browser runs the merge with Web Audio for decoding, a worker for encoding and OPFS for spooling
+  const browserPlatform = (): MergePlatform => {
+    let decodeCtx: OfflineAudioContext | null = null;
+    return {
+      decode: async (track, sampleRate) => {
+        // Decoding through an offline context at the export rate resamples every source to it
+        if (!decodeCtx || decodeCtx.sampleRate !== sampleRate) decodeCtx = new OfflineAudioContext(2, 1, sampleRate);
+        return track.buffer
+          ? await resampleBuffer(track.buffer, sampleRate)
+          : track.file ? await decodeAudio(track.file, decodeCtx) : null;
+      },
+      applyEffects: renderEffects,
+      createEncoder: createWorkerEncoder,
+      // A file per block or per part can't all go through one save dialog, so those are spooled and offered as downloads
+      createSink: (fileName, mimeType, slot) => createExportSink('download', fileName, mimeType, slot),
+    };
+  };
+
+  const processMerge = async () => {
+    if (tracks.length === 0) return;
+    
+    setProcessing({ status: 'decoding', message: t.statusDecoding, progress: 0 });
+    setExportFiles([]);
+    const { signal } = startCancellable();
+
+    try {
+      const config = mergeConfig();
+      const fileName = singleFileName(config);
+      // Has to happen first: the save dialog needs the click that started the merge
+      const sink = fileName ? await createExportSink(exportTarget, fileName, exportFileType(exportSettings).mimeType) : undefined;
 
-      // Create MP3 Blob
-      const mp3Blob = new Blob(mp3Chunks, { type: 'audio/mp3' });
-      setMergedBlob(mp3Blob);
+      const { files, updates } = await runMerge(config, browserPlatform(), { signal, sink, onProgress: setProcessing });
+
+      setExportFiles(files);
+      applyTrackUpdates(updates);
       
       setProcessing({ status: 'completed', message: t.statusReady, progress: 100 });
 
     } catch (e: any) {
+      // Aborted by our Cancel button, or the user closed the save dialog
+      if (signal.aborted || e.name === 'AbortError') {
+        setProcessing({ status: 'idle', message: '', progress: 0 });
+        return;
+      }
       console.error(e);
       setProcessing({ status: 'error', message: t.statusError + " (" + (e.message || "Unknown error") + ")", progress: 0 });
+    } finally {
+      setCancelController(null);
     }
   };
 
+  // The mix as planned from the durations known so far, in milliseconds
+  const plannedTimeline = useMemo(() => {
+    const durations = Object.fromEntries(tracks.map(track => [track.id, plannedDuration(track)]));
+    const lengths = Object.fromEntries(tracks.map(track => [track.id, Math.round(durations[track.id] * 1000)]));
+    return buildTimeline(arrangeQueue(tracks, durations, { fill, dayParts, crossfade }), lengths, 1000, crossfade, ducking);
+  }, [tracks, crossfade, ducking, silenceTrim, fill, dayParts]);
+
+  // Where each track first starts in the mix
+  const plannedStarts = useMemo(() => {
+    const starts: Record<string, number> = {};
+    for (const clip of plannedTimeline.clips) {
+      if (!(clip.trackId in starts)) starts[clip.trackId] = clip.start / plannedTimeline.sampleRate;
+    }
+    return starts;
+  }, [plannedTimeline]);
+
+  // Where recurring announcements land, and in fill mode the whole repeated order
+  const schedulePreview = tracks.some(isRecurring) || fill.enabled || useDayParts ? plannedTimeline : null;
+
+  const selectedTrack = tracks.find(track => track.id === selectedTrackId) ?? null;
+
+  // Recurring announcements don't keep their queue slot
+  const scheduledTracks = tracks.filter(track => !isRecurring(track));
+
+  const splitLimit = split.mode === 'minutes' ? split.maxMinutes : split.maxMegabytes;
+
   const toggleLanguage = () => {
     setLang(prev => prev === 'en' ? 'zh' : 'en');
   };
@@ -233,6 +676,73 @@ const App: React.FC = () => {
           
           {/* Left Column: Settings & Upload */}
           <div className="lg:col-span-1 space-y-6">
+
+            {/* Saved Projects */}
+            <div className="bg-gray-900/50 p-6 rounded-2xl border border-gray-800 backdrop-blur-sm space-y-4">
+              <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <FolderOpen size={20} className="text-gray-300" /> {t.projects}
+              </h2>
+
+              <div>
+                <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.projectName}</label>
+                <div className="flex gap-2">
+                  <input 
+                    type="text" 
+                    value={projectName}
+                    placeholder={storeName}
+                    onChange={(e) => setProjectName(e.target.value)}
+                    className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button 
+                    onClick={handleSaveProject}
+                    disabled={projectBusy || tracks.length === 0}
+                    className="flex items-center gap-1 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-3 rounded-lg transition-colors"
+                  >
+                    {projectBusy ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} {t.saveProject}
+                  </button>
+                </div>
+              </div>
+
+              {projects.length === 0 ? (
+                <p className="text-xs text-gray-500">{t.noProjects}</p>
+              ) : (
+                <ul className="space-y-1 max-h-48 overflow-y-auto">
+                  {projects.map(project => (
+                    <li 
+                      key={project.id}
+                      className={`flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm ${project.id === projectId ? 'bg-indigo-900/30 border border-indigo-800/50' : 'hover:bg-gray-800'}`}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-gray-200">{project.name}</p>
+                        <p className="text-[10px] text-gray-500">{t.projectSummary(project.trackCount, new Date(project.updatedAt).toLocaleString(lang === 'zh' ? 'zh-CN' : 'en-US'))}</p>
+                      </div>
+                      <button onClick={() => handleOpenProject(project.id)} disabled={projectBusy} title={t.openProject} className="p-1 text-gray-400 hover:text-white disabled:opacity-30"><FolderOpen size={14} /></button>
+                      <button onClick={() => handleDuplicateProject(project)} disabled={projectBusy} title={t.duplicateProject} className="p-1 text-gray-400 hover:text-white disabled:opacity-30"><Copy size={14} /></button>
+                      <button onClick={() => handleDeleteProject(project)} disabled={projectBusy} title={t.deleteProject} className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30"><Trash2 size={14} /></button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <button 
+                  onClick={handleExportProjectFile}
+                  disabled={projectBusy || tracks.length === 0}
+                  className="flex items-center justify-center gap-1 bg-gray-800 hover:bg-gray-700 border border-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-xs text-gray-300 py-2 rounded-lg transition-colors"
+                >
+                  <Package size={14} /> {t.exportProjectFile}
+                </button>
+                <label className={`relative flex items-center justify-center gap-1 bg-gray-800 hover:bg-gray-700 border border-gray-700 text-xs text-gray-300 py-2 rounded-lg transition-colors cursor-pointer ${projectBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+                  <input 
+                    type="file" 
+                    accept=".zip,application/zip"
+                    onChange={handleImportProjectFile}
+                    className="hidden"
+                  />
+                  <Upload size={14} /> {t.importProjectFile}
+                </label>
+              </div>
+            </div>
             
             {/* Store Config */}
             <div className="bg-gray-900/50 p-6 rounded-2xl border border-gray-800 backdrop-blur-sm space-y-4">
@@ -265,6 +775,425 @@ const App: React.FC = () => {
 
               <div className="h-px bg-gray-800 my-2"></div>
 
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.crossfadeDuration}</label>
+                  <input 
+                    type="number" 
+                    min={0}
+                    max={15}
+                    step={0.5}
+                    value={crossfade.music.duration}
+                    onChange={(e) => setCrossfade(prev => ({ ...prev, music: { ...prev.music, duration: Math.max(0, Number(e.target.value)) } }))}
+                    className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.fadeCurve}</label>
+                  <select 
+                    value={crossfade.music.curve}
+                    onChange={(e) => setCrossfade(prev => ({ ...prev, music: { ...prev.music, curve: e.target.value as FadeCurve } }))}
+                    className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {(Object.keys(t.fadeCurves) as FadeCurve[]).map(c => (
+                      <option key={c} value={c}>{t.fadeCurves[c]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.voiceoverFade}</label>
+                <input 
+                  type="number" 
+                  min={0}
+                  max={5}
+                  step={0.1}
+                  value={crossfade.voiceover.duration}
+                  onChange={(e) => setCrossfade(prev => ({ ...prev, voiceover: { ...prev.voiceover, duration: Math.max(0, Number(e.target.value)) } }))}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <p className="text-[10px] text-gray-500 mt-1">{t.voiceoverFadeHelp}</p>
+              </div>
+
+              <div>
+                <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.ducking}</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {([
+                    ['amount', t.duckAmount, 0, 30, 1],
+                    ['attack', t.duckAttack, 0, 5, 0.1],
+                    ['release', t.duckRelease, 0, 5, 0.1],
+                    ['leadIn', t.duckLeadIn, 0, 30, 0.5],
+                  ] as [keyof DuckingSettings, string, number, number, number][]).map(([key, label, min, max, step]) => (
+                    <div key={key}>
+                      <input 
+                        type="number" 
+                        min={min}
+                        max={max}
+                        step={step}
+                        value={ducking[key]}
+                        onChange={(e) => setDucking(prev => ({ ...prev, [key]: Math.max(0, Number(e.target.value)) }))}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                      <span className="block text-[10px] text-gray-500 mt-1">{label}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[10px] text-gray-500 mt-1">{t.duckingHelp}</p>
+              </div>
+
+              <div className="h-px bg-gray-800 my-2"></div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    checked={loudness.enabled}
+                    onChange={(e) => setLoudness(prev => ({ ...prev, enabled: e.target.checked }))}
+                    className="accent-indigo-500"
+                  />
+                  {t.normalizeLoudness}
+                </label>
+                {loudness.enabled && (
+                  <div className="flex items-end gap-2 mt-3">
+                    <div className="flex-1">
+                      <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.targetLoudness}</label>
+                      <input 
+                        type="number" 
+                        min={-30}
+                        max={-6}
+                        step={1}
+                        value={loudness.targetLufs}
+                        onChange={(e) => setLoudness(prev => ({ ...prev, targetLufs: Number(e.target.value) }))}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    </div>
+                    <button 
+                      onClick={handleAnalyze}
+                      disabled={!tracks.some(needsAnalysis) || (processing.status !== 'idle' && processing.status !== 'completed')}
+                      className="flex items-center gap-1 h-[38px] px-3 rounded-lg text-xs font-semibold bg-gray-700 border border-gray-600 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Gauge size={14} /> {t.analyzeLoudness}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="h-px bg-gray-800 my-2"></div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    checked={master.limiter}
+                    onChange={(e) => setMaster(prev => ({ ...prev, limiter: e.target.checked }))}
+                    className="accent-indigo-500"
+                  />
+                  {t.masterLimiter}
+                </label>
+                {master.limiter && (
+                  <div className="grid grid-cols-2 gap-3 mt-3">
+                    <div>
+                      <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.limiterCeiling}</label>
+                      <input 
+                        type="number" 
+                        min={-6}
+                        max={0}
+                        step={0.1}
+                        value={master.ceiling}
+                        onChange={(e) => setMaster(prev => ({ ...prev, ceiling: Math.max(-6, Math.min(0, Number(e.target.value))) }))}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.limiterRelease}</label>
+                      <input 
+                        type="number" 
+                        min={10}
+                        max={1000}
+                        step={10}
+                        value={master.release}
+                        onChange={(e) => setMaster(prev => ({ ...prev, release: Math.max(10, Math.min(1000, Number(e.target.value))) }))}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    </div>
+                  </div>
+                )}
+                {reducesTo16Bit(exportSettings) && (
+                  <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer mt-3">
+                    <input 
+                      type="checkbox" 
+                      checked={master.dither}
+                      onChange={(e) => setMaster(prev => ({ ...prev, dither: e.target.checked }))}
+                      className="accent-indigo-500"
+                    />
+                    {t.ditherOutput}
+                  </label>
+                )}
+                <p className="text-[10px] text-gray-500 mt-1">{t.masterHelp}</p>
+              </div>
+
+              <div className="h-px bg-gray-800 my-2"></div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    checked={silenceTrim.enabled}
+                    onChange={(e) => setSilenceTrim(prev => ({ ...prev, enabled: e.target.checked }))}
+                    className="accent-indigo-500"
+                  />
+                  {t.trimSilence}
+                </label>
+                {silenceTrim.enabled && (
+                  <div className="grid grid-cols-2 gap-3 mt-3">
+                    <div>
+                      <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.silenceThreshold}</label>
+                      <input 
+                        type="number" 
+                        min={-90}
+                        max={-20}
+                        step={1}
+                        value={silenceTrim.thresholdDb}
+                        onChange={(e) => setSilenceTrim(prev => ({ ...prev, thresholdDb: Number(e.target.value) }))}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.silenceMinLength}</label>
+                      <input 
+                        type="number" 
+                        min={0}
+                        max={10}
+                        step={0.1}
+                        value={silenceTrim.minDuration}
+                        onChange={(e) => setSilenceTrim(prev => ({ ...prev, minDuration: Math.max(0, Number(e.target.value)) }))}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="h-px bg-gray-800 my-2"></div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    checked={fill.enabled || useDayParts}
+                    disabled={useDayParts}
+                    onChange={(e) => setFill(prev => ({ ...prev, enabled: e.target.checked }))}
+                    className="accent-indigo-500"
+                  />
+                  {t.fillToDuration}
+                </label>
+                {/* Day parts always fill their time range, with these rules */}
+                {(fill.enabled || useDayParts) && (
+                  <div className="space-y-3 mt-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      {!useDayParts && (
+                        <div>
+                          <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.fillTarget}</label>
+                          <input 
+                            type="number" 
+                            min={0.5}
+                            max={24}
+                            step={0.5}
+                            value={fill.targetMinutes / 60}
+                            onChange={(e) => setFill(prev => ({ ...prev, targetMinutes: Math.max(1, Math.round(Number(e.target.value) * 60)) }))}
+                            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                          />
+                        </div>
+                      )}
+                      <div>
+                        <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.fillOrder}</label>
+                        <select 
+                          value={fill.order}
+                          onChange={(e) => setFill(prev => ({ ...prev, order: e.target.value as FillSettings['order'] }))}
+                          className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                          <option value="shuffle">{t.fillOrders.shuffle}</option>
+                          <option value="cycle">{t.fillOrders.cycle}</option>
+                        </select>
+                      </div>
+                      {fill.order === 'shuffle' && (
+                        <div>
+                          <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.fillSpacing}</label>
+                          <input 
+                            type="number" 
+                            min={0}
+                            step={1}
+                            value={fill.minSpacing}
+                            onChange={(e) => setFill(prev => ({ ...prev, minSpacing: Math.max(0, Math.round(Number(e.target.value))) }))}
+                            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                          />
+                        </div>
+                      )}
+                      <div>
+                        <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.fillVoiceoverEvery}</label>
+                        <input 
+                          type="number" 
+                          min={0}
+                          step={5}
+                          value={fill.voiceoverEvery}
+                          onChange={(e) => setFill(prev => ({ ...prev, voiceoverEvery: Math.max(0, Number(e.target.value)) }))}
+                          className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-gray-400">
+                      <span>{t.fillPlanned(formatDuration(plannedTimeline.length / plannedTimeline.sampleRate), plannedTimeline.clips.filter(clip => clip.type === 'music').length)}</span>
+                      {fill.order === 'shuffle' && (
+                        <button onClick={() => setFill(prev => ({ ...prev, seed: newFillSeed() }))} className="flex items-center gap-1 underline hover:text-gray-200">
+                          <Shuffle size={12} /> {t.reshuffle}
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-[10px] text-gray-500">{t.fillHelp}</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="h-px bg-gray-800 my-2"></div>
+
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.exportPreset}</label>
+                  <select 
+                    value={matchPreset(exportSettings) ?? ''}
+                    onChange={(e) => e.target.value && updateExportSettings(EXPORT_PRESETS[e.target.value as ExportPreset])}
+                    className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {(Object.keys(EXPORT_PRESETS) as ExportPreset[]).map(p => (
+                      <option key={p} value={p}>{t.exportPresets[p]}</option>
+                    ))}
+                    {!matchPreset(exportSettings) && <option value="">{t.customPreset}</option>}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.exportFormat}</label>
+                    <select 
+                      value={exportSettings.format}
+                      onChange={(e) => updateExportSettings({ format: e.target.value as ExportSettings['format'] })}
+                      className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      <option value="mp3">MP3</option>
+                      <option value="wav">{t.wavLossless}</option>
+                    </select>
+                  </div>
+                  {exportSettings.format === 'mp3' ? (
+                    <div>
+                      <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.mp3Mode}</label>
+                      <select 
+                        value={exportSettings.mp3Mode}
+                        onChange={(e) => updateExportSettings({ mp3Mode: e.target.value as ExportSettings['mp3Mode'] })}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        <option value="cbr">{t.mp3Modes.cbr}</option>
+                        <option value="vbr">{t.mp3Modes.vbr}</option>
+                      </select>
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.bitDepth}</label>
+                      <select 
+                        value={exportSettings.bitDepth}
+                        onChange={(e) => updateExportSettings({ bitDepth: Number(e.target.value) as ExportSettings['bitDepth'] })}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        <option value={16}>16-bit</option>
+                        <option value={24}>24-bit</option>
+                      </select>
+                    </div>
+                  )}
+                  {exportSettings.format === 'mp3' && (exportSettings.mp3Mode === 'cbr' ? (
+                    <div>
+                      <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.bitrate}</label>
+                      <select 
+                        value={exportSettings.bitrate}
+                        onChange={(e) => updateExportSettings({ bitrate: Number(e.target.value) })}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        {MP3_BITRATES.map(kbps => (
+                          <option key={kbps} value={kbps}>{kbps} kbps</option>
+                        ))}
+                      </select>
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.vbrQuality}</label>
+                      <input 
+                        type="number" 
+                        min={0}
+                        max={9}
+                        step={1}
+                        value={exportSettings.vbrQuality}
+                        onChange={(e) => updateExportSettings({ vbrQuality: Math.max(0, Math.min(9, Math.round(Number(e.target.value)))) })}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.channels}</label>
+                    <select 
+                      value={exportSettings.channels}
+                      onChange={(e) => updateExportSettings({ channels: Number(e.target.value) as ExportSettings['channels'] })}
+                      className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      <option value={2}>{t.stereo}</option>
+                      <option value={1}>{t.mono}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.sampleRate}</label>
+                    <select 
+                      value={exportSettings.sampleRate}
+                      onChange={(e) => updateExportSettings({ sampleRate: Number(e.target.value) })}
+                      className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {SAMPLE_RATES.map(rate => (
+                        <option key={rate} value={rate}>{(rate / 1000).toFixed(rate % 1000 ? 2 : 0)} kHz</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.splitExport}</label>
+                    <select 
+                      value={split.mode}
+                      onChange={(e) => setSplit(prev => ({ ...prev, mode: e.target.value as SplitSettings['mode'] }))}
+                      className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {(Object.keys(t.splitModes) as SplitSettings['mode'][]).map(mode => (
+                        <option key={mode} value={mode}>{t.splitModes[mode]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {split.mode !== 'off' && (
+                    <div>
+                      <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{split.mode === 'minutes' ? t.maxPartMinutes : t.maxPartMegabytes}</label>
+                      <input 
+                        type="number" 
+                        min={MIN_PART_LIMIT}
+                        step={split.mode === 'minutes' ? 5 : 10}
+                        // Kept as typed and flagged when invalid; an empty field stays empty
+                        value={Number.isFinite(splitLimit) ? splitLimit : ''}
+                        onChange={(e) => {
+                            const value = e.target.valueAsNumber;
+                            setSplit(prev => prev.mode === 'minutes' ? { ...prev, maxMinutes: value } : { ...prev, maxMegabytes: value });
+                        }}
+                        className={`w-full bg-gray-800 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 ${isValidSplit(split) ? 'border-gray-700 focus:ring-indigo-500' : 'border-red-500 focus:ring-red-500'}`}
+                      />
+                      {!isValidSplit(split) && <p className="text-[10px] text-red-400 mt-1">{t.splitLimitInvalid(MIN_PART_LIMIT)}</p>}
+                    </div>
+                  )}
+                </div>
+                {split.mode !== 'off' && <p className="text-[10px] text-gray-500">{t.splitHelp}</p>}
+              </div>
+
+              <div className="h-px bg-gray-800 my-2"></div>
+
               <div>
                 <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.apiKeyLabel}</label>
                 <div className="relative">
@@ -280,24 +1209,106 @@ const App: React.FC = () => {
                 <p className="text-[10px] text-gray-500 mt-1">{t.apiKeyHelp}</p>
               </div>
 
+              <details>
+                <summary className="text-xs text-gray-400 cursor-pointer">{t.aiProvider}: {t.aiProviders[aiSettings.provider]}</summary>
+                <div className="space-y-3 mt-3">
+                  <select 
+                    value={aiSettings.provider}
+                    onChange={(e) => updateAiSettings({ provider: e.target.value as AiProviderKind })}
+                    className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {(Object.keys(t.aiProviders) as AiProviderKind[]).map(kind => (
+                      <option key={kind} value={kind}>{t.aiProviders[kind]}</option>
+                    ))}
+                  </select>
+                  {aiSettings.provider === 'http' && (
+                    <div>
+                      <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.aiEndpoint}</label>
+                      <input 
+                        type="url" 
+                        value={aiSettings.endpoint}
+                        onChange={(e) => updateAiSettings({ endpoint: e.target.value })}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    </div>
+                  )}
+                  {aiSettings.provider !== 'mock' ? (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.textModel}</label>
+                        <input 
+                          type="text" 
+                          value={aiSettings.models.text}
+                          onChange={(e) => updateAiSettings({ models: { ...aiSettings.models, text: e.target.value } })}
+                          className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.ttsModel}</label>
+                        <input 
+                          type="text" 
+                          value={aiSettings.models.tts}
+                          onChange={(e) => updateAiSettings({ models: { ...aiSettings.models, tts: e.target.value } })}
+                          className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-[10px] text-gray-500">{t.mockProviderHelp}</p>
+                  )}
+                </div>
+              </details>
+
               <div className="flex flex-col gap-2 pt-2">
                   <button 
                       onClick={handleAddIntro}
-                      disabled={!apiKey || (processing.status !== 'idle' && processing.status !== 'completed')}
-                      className={`flex items-center justify-center gap-2 w-full py-2 rounded-lg text-xs font-semibold transition-colors border ${!apiKey ? 'bg-gray-800 border-gray-700 text-gray-500 cursor-not-allowed opacity-60' : 'bg-indigo-900/30 border-indigo-700 text-indigo-200 hover:bg-indigo-900/50'}`}
+                      disabled={!ai || (processing.status !== 'idle' && processing.status !== 'completed')}
+                      className={`flex items-center justify-center gap-2 w-full py-2 rounded-lg text-xs font-semibold transition-colors border ${!ai ? 'bg-gray-800 border-gray-700 text-gray-500 cursor-not-allowed opacity-60' : 'bg-indigo-900/30 border-indigo-700 text-indigo-200 hover:bg-indigo-900/50'}`}
                   >
                       <Radio size={14} /> {t.genIntro}
                   </button>
                   <button 
                       onClick={handleSmartSort}
-                      disabled={!apiKey || tracks.length < 2 || (processing.status !== 'idle' && processing.status !== 'completed')}
-                      className={`flex items-center justify-center gap-2 w-full py-2 rounded-lg text-xs font-semibold transition-colors border ${!apiKey || tracks.length < 2 ? 'bg-gray-800 border-gray-700 text-gray-500 cursor-not-allowed opacity-60' : 'bg-gray-700 border-gray-600 hover:bg-gray-600 text-gray-200'}`}
+                      disabled={tracks.length < 2 || (processing.status !== 'idle' && processing.status !== 'completed')}
+                      className={`flex items-center justify-center gap-2 w-full py-2 rounded-lg text-xs font-semibold transition-colors border ${tracks.length < 2 ? 'bg-gray-800 border-gray-700 text-gray-500 cursor-not-allowed opacity-60' : 'bg-gray-700 border-gray-600 hover:bg-gray-600 text-gray-200'}`}
                   >
-                      <Wand2 size={14} /> {t.smartSort}
+                      <Wand2 size={14} /> {ai ? t.smartSort : t.smartSortLocal}
                   </button>
               </div>
             </div>
 
+            <DayPartsPanel
+              settings={dayParts}
+              onChange={setDayParts}
+              tracks={tracks}
+              busy={processing.status !== 'idle' && processing.status !== 'completed' && processing.status !== 'error'}
+              onRecordIntro={handleBlockIntro}
+              onWriteMissingIntros={handleWriteMissingIntros}
+              t={t}
+            />
+
+            <LivePanel
+              settings={live}
+              onChange={setLive}
+              tracks={tracks}
+              onTrackChange={(id, changes) => setTracks(prev => prev.map(track => track.id === id ? { ...track, ...changes } : track))}
+              getContext={getAudioContext}
+              load={preparePlayback}
+              crossfade={crossfade}
+              ducking={ducking}
+              master={master}
+              t={t}
+            />
+
+            <AnnouncementTemplates
+              storeName={storeName}
+              values={templateValues}
+              onValuesChange={setTemplateValues}
+              lang={lang}
+              onRecord={handleRecordAnnouncement}
+              t={t}
+            />
+
             {/* Uploader */}
             <div className="relative group">
                 <input 
@@ -323,10 +1334,15 @@ const App: React.FC = () => {
             <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-850">
                 <h3 className="font-semibold text-gray-200 flex items-center gap-2">
                     <Music size={18} /> {t.queue} ({tracks.length})
+                    {tracks.length > 0 && (
+                        <span className={`text-xs font-normal ${tracks.some(track => !track.duration) ? 'text-amber-300' : 'text-gray-400'}`}>
+                            {t.totalLength(formatDuration(plannedTimeline.length / plannedTimeline.sampleRate))}
+                        </span>
+                    )}
                 </h3>
                 {tracks.length > 0 && (
                     <button 
-                        onClick={() => setTracks([])}
+                        onClick={() => { setTracks([]); setCrossfade(prev => ({ ...prev, overrides: {} })); }}
                         className="text-xs text-red-400 hover:text-red-300"
                     >
                         {t.clearAll}
@@ -340,29 +1356,243 @@ const App: React.FC = () => {
                         <p>{t.noTracks}</p>
                     </div>
                 ) : (
-                    tracks.map((track, idx) => (
-                        <div key={track.id} className="group flex items-center gap-3 p-3 rounded-lg bg-gray-800/40 hover:bg-gray-800 border border-transparent hover:border-gray-700 transition-all">
-                            <span className="text-gray-500 text-xs w-6 text-center">{idx + 1}</span>
+                    tracks.map((track, idx) => {
+                        const previousMain = isOverlay(track) || isRecurring(track) ? null : previousMainTrack(scheduledTracks, scheduledTracks.indexOf(track));
+                        const transition = previousMain ? resolveTransition(crossfade, previousMain, track) : null;
+                        const override = crossfade.overrides[track.id];
+                        return (
+                            <React.Fragment key={track.id}>
+                                {transition && (
+                                    <div className="flex flex-col items-center py-0.5">
+                                        <div className="flex items-center gap-1">
+                                            <button 
+                                                onClick={() => setEditingTransition(editingTransition === track.id ? null : track.id)}
+                                                className={`flex items-center gap-1 text-[10px] px-2 py-0.5 rounded-full border transition-colors ${override ? 'border-indigo-700 text-indigo-300 bg-indigo-900/30' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+                                            >
+                                                <Shuffle size={10} />
+                                                {transition.duration > 0 ? t.transitionLabel(transition.duration, t.fadeCurves[transition.curve], transition.overlap) : t.hardCut}
+                                            </button>
+                                            <button 
+                                                onClick={() => transitionPreview?.trackId === track.id ? stopTransitionPreview() : handlePreviewTransition(previousMain!, track)}
+                                                title={transitionPreview?.trackId === track.id ? t.stopPreview : t.previewTransition}
+                                                className={`p-1 rounded-full transition-colors ${transitionPreview?.trackId === track.id ? 'text-indigo-300' : 'text-gray-600 hover:text-gray-300'}`}
+                                            >
+                                                {transitionPreview?.trackId !== track.id ? <Play size={10} /> : transitionPreview.playing ? <Square size={10} /> : <Loader2 size={10} className="animate-spin" />}
+                                            </button>
+                                        </div>
+                                        {editingTransition === track.id && (
+                                            <div className="flex items-center gap-2 mt-1 p-2 rounded-lg bg-gray-800 border border-gray-700 text-xs">
+                                                <input 
+                                                    type="number" 
+                                                    min={0}
+                                                    max={15}
+                                                    step={0.5}
+                                                    value={transition.duration}
+                                                    onChange={(e) => updateTransitionOverride(track.id, { ...transition, duration: Math.max(0, Number(e.target.value)) })}
+                                                    className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                                />
+                                                <select 
+                                                    value={transition.curve}
+                                                    onChange={(e) => updateTransitionOverride(track.id, { ...transition, curve: e.target.value as FadeCurve })}
+                                                    className="bg-gray-900 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                                >
+                                                    {(Object.keys(t.fadeCurves) as FadeCurve[]).map(c => (
+                                                        <option key={c} value={c}>{t.fadeCurves[c]}</option>
+                                                    ))}
+                                                </select>
+                                                {override && (
+                                                    <button onClick={() => updateTransitionOverride(track.id, null)} className="text-gray-400 hover:text-gray-200">
+                                                        {t.useDefault}
+                                                    </button>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                                <div 
+                                    onClick={() => setSelectedTrackId(selectedTrackId === track.id ? null : track.id)}
+                                    className={`group flex items-center gap-3 p-3 rounded-lg border transition-all cursor-pointer ${selectedTrackId === track.id ? 'bg-gray-800 border-indigo-700/60' : 'bg-gray-800/40 hover:bg-gray-800 border-transparent hover:border-gray-700'}`}
+                                >
+                                    <span className="text-gray-500 text-xs w-6 text-center">{idx + 1}</span>
                             
-                            <div className="bg-gray-700 p-2 rounded text-indigo-300">
-                                {track.type === 'voiceover' ? <Radio size={16} className="text-pink-400" /> : <Music size={16} />}
-                            </div>
+                                    <div className="bg-gray-700 p-2 rounded text-indigo-300">
+                                        {track.type === 'voiceover' ? <Radio size={16} className="text-pink-400" /> : <Music size={16} />}
+                                    </div>
                             
-                            <div className="flex-1 min-w-0">
-                                <p className="text-sm font-medium text-gray-200 truncate">{track.name}</p>
-                                <p className="text-xs text-gray-500">{track.type === 'voiceover' ? t.aiGenerated : t.localFile}</p>
-                            </div>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-gray-200 truncate" title={track.script}>{track.name}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {track.duration > 0 && (
+                                                <span className="mr-2 font-mono text-gray-400">
+                                                    {!isRecurring(track) && track.id in plannedStarts && `${formatDuration(plannedStarts[track.id])} · `}
+                                                    {formatDuration(plannedDuration(track))}
+                                                </span>
+                                            )}
+                                            {track.type === 'voiceover' ? t.aiGenerated : t.localFile}
+                                            {isOverlay(track) && <span className="ml-2 text-pink-400">{t.overMusic}</span>}
+                                            {track.features && track.features.tempo > 0 && <span className="ml-2 text-gray-400">{t.bpm(Math.round(track.features.tempo))}</span>}
+                                            {(track.inPoint !== undefined || track.outPoint !== undefined) && (
+                                                <span className="ml-2 text-amber-300">{t.trimPoints(formatDuration(track.inPoint ?? 0), formatDuration(track.outPoint ?? track.duration))}</span>
+                                            )}
+                                            {isRecurring(track) && <span className="ml-2 text-amber-400">{t.recurrenceSummary(track.recurrence!.mode, track.recurrence!.every)}</span>}
+                                            {loudness.enabled && track.loudness && (
+                                                <span className="ml-2 text-gray-400">
+                                                    {t.loudnessSummary(track.loudness.integrated, track.loudness.truePeak, normalizationGain(track.loudness, loudness))}
+                                                </span>
+                                            )}
+                                            {silenceTrim.enabled && !track.keepSilence && track.silenceTrim && (track.silenceTrim.start > 0 || track.silenceTrim.end > 0) && (
+                                                <span className="ml-2 text-gray-400">
+                                                    {t.silenceSummary(track.silenceTrim.start, track.silenceTrim.end)}
+                                                </span>
+                                            )}
+                                            {track.effects && activeEffects(track.effects).map(kind => (
+                                                <span key={kind} className="ml-2 text-teal-300">
+                                                    {kind === 'gain' ? t.effectSummaries.gain(track.effects!.gain)
+                                                        : kind === 'fade' ? t.effectSummaries.fade(track.effects!.fadeIn, track.effects!.fadeOut)
+                                                        : kind === 'tempo' ? t.effectSummaries.tempo(track.effects!.tempo)
+                                                        : t.effectSummaries.eq(track.effects!.lowShelf, track.effects!.highShelf)}
+                                                </span>
+                                            ))}
+                                            {track.downmix && track.downmix !== 'auto' && (
+                                                <span className="ml-2 text-teal-300">{t.downmixModes[track.downmix]}</span>
+                                            )}
+                                        </p>
+                                    </div>
 
-                            <div className="flex items-center gap-1 opacity-50 group-hover:opacity-100 transition-opacity">
-                                <button onClick={() => moveTrack(idx, 'up')} disabled={idx === 0} className="p-1 hover:bg-gray-700 rounded disabled:opacity-30"><ArrowUp size={14}/></button>
-                                <button onClick={() => moveTrack(idx, 'down')} disabled={idx === tracks.length - 1} className="p-1 hover:bg-gray-700 rounded disabled:opacity-30"><ArrowDown size={14}/></button>
-                                <button onClick={() => removeTrack(track.id)} className="p-1 hover:bg-red-900/50 text-red-400 rounded ml-2"><X size={14}/></button>
-                            </div>
-                        </div>
-                    ))
+                                    <div onClick={(e) => e.stopPropagation()} className="flex items-center gap-1 opacity-50 group-hover:opacity-100 transition-opacity">
+                                        {track.type === 'voiceover' && track.script && (
+                                            <button 
+                                                onClick={() => ai ? setIntroStudio({ trackId: track.id }) : alert(t.apiKeyMissing)}
+                                                title={t.editScript}
+                                                className="p-1 hover:bg-gray-700 rounded text-gray-400"
+                                            >
+                                                <FileText size={14}/>
+                                            </button>
+                                        )}
+                                        {track.type === 'voiceover' && (
+                                            <button 
+                                                onClick={() => setEditingRecurrence(editingRecurrence === track.id ? null : track.id)}
+                                                title={t.repeatAnnouncement}
+                                                className={`p-1 hover:bg-gray-700 rounded ${isRecurring(track) ? 'text-amber-400' : 'text-gray-600'}`}
+                                            >
+                                                <Repeat size={14}/>
+                                            </button>
+                                        )}
+                                        {track.type === 'voiceover' && (
+                                            <button 
+                                                onClick={() => toggleOverlay(track.id)}
+                                                title={track.overlay ? t.overlayOn : t.overlayOff}
+                                                className={`p-1 hover:bg-gray-700 rounded ${track.overlay ? 'text-pink-400' : 'text-gray-600'}`}
+                                            >
+                                                <Layers size={14}/>
+                                            </button>
+                                        )}
+                                        <button 
+                                            onClick={() => setEditingEffects(editingEffects === track.id ? null : track.id)}
+                                            title={t.trackEffects}
+                                            className={`p-1 hover:bg-gray-700 rounded ${activeEffects(track.effects).length > 0 || (track.downmix ?? 'auto') !== 'auto' ? 'text-teal-300' : 'text-gray-600'}`}
+                                        >
+                                            <SlidersHorizontal size={14}/>
+                                        </button>
+                                        {silenceTrim.enabled && (
+                                            <button 
+                                                onClick={() => toggleKeepSilence(track.id)}
+                                                title={track.keepSilence ? t.keepSilenceOn : t.keepSilenceOff}
+                                                className={`p-1 hover:bg-gray-700 rounded mr-1 ${track.keepSilence ? 'text-gray-600' : 'text-indigo-300'}`}
+                                            >
+                                                <Scissors size={14}/>
+                                            </button>
+                                        )}
+                                        <button onClick={() => moveTrack(idx, 'up')} disabled={idx === 0} className="p-1 hover:bg-gray-700 rounded disabled:opacity-30"><ArrowUp size={14}/></button>
+                                        <button onClick={() => moveTrack(idx, 'down')} disabled={idx === tracks.length - 1} className="p-1 hover:bg-gray-700 rounded disabled:opacity-30"><ArrowDown size={14}/></button>
+                                        <button onClick={() => removeTrack(track.id)} className="p-1 hover:bg-red-900/50 text-red-400 rounded ml-2"><X size={14}/></button>
+                                    </div>
+                                </div>
+                                {editingEffects === track.id && (
+                                    <TrackEffectsEditor
+                                        effects={track.effects}
+                                        onChange={(effects) => updateEffects(track.id, effects)}
+                                        downmix={track.downmix}
+                                        onDownmixChange={(downmix) => updateDownmix(track.id, downmix)}
+                                        t={t}
+                                    />
+                                )}
+                                {editingRecurrence === track.id && (
+                                    <div className="flex items-center gap-2 ml-9 mt-1 p-2 rounded-lg bg-gray-800 border border-gray-700 text-xs">
+                                        <span className="text-gray-400">{t.repeatEvery}</span>
+                                        <input 
+                                            type="number" 
+                                            min={1}
+                                            step={1}
+                                            value={(track.recurrence ?? DEFAULT_RECURRENCE).every}
+                                            onChange={(e) => updateRecurrence(track.id, { ...(track.recurrence ?? DEFAULT_RECURRENCE), every: Math.max(1, Math.round(Number(e.target.value))) })}
+                                            className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                        />
+                                        <select 
+                                            value={(track.recurrence ?? DEFAULT_RECURRENCE).mode}
+                                            onChange={(e) => updateRecurrence(track.id, { ...(track.recurrence ?? DEFAULT_RECURRENCE), mode: e.target.value as RecurrenceRule['mode'] })}
+                                            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                        >
+                                            <option value="minutes">{t.recurrenceModes.minutes}</option>
+                                            <option value="songs">{t.recurrenceModes.songs}</option>
+                                        </select>
+                                        {track.recurrence && (
+                                            <button onClick={() => updateRecurrence(track.id, undefined)} className="text-gray-400 hover:text-gray-200">
+                                                {t.playOnce}
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </React.Fragment>
+                        );
+                    })
                 )}
             </div>
 
+            {selectedTrack && (
+                <TrackPreview 
+                    key={selectedTrack.id}
+                    track={selectedTrack}
+                    getAudioContext={getAudioContext}
+                    onTrimChange={(inPoint, outPoint) => updateTrimPoints(selectedTrack.id, inPoint, outPoint)}
+                    onClose={() => setSelectedTrackId(null)}
+                    t={t}
+                />
+            )}
+
+            {schedulePreview && (
+                <div className="border-t border-gray-800 p-4 max-h-64 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-transparent">
+                    <div className="flex justify-between items-center mb-2">
+                        <h4 className="text-xs uppercase tracking-wider text-gray-500">{t.timelinePreview}</h4>
+                        <span className="text-xs text-gray-500">{formatDuration(schedulePreview.length / schedulePreview.sampleRate)}</span>
+                    </div>
+                    {tracks.some(track => !track.duration) && (
+                        <div className="flex items-center justify-between gap-2 mb-2 text-[11px] text-amber-300 bg-amber-900/20 rounded px-2 py-1">
+                            <span>{t.durationsUnknown}</span>
+                            <button 
+                                onClick={handleAnalyze}
+                                disabled={processing.status !== 'idle' && processing.status !== 'completed'}
+                                className="underline hover:text-amber-200 disabled:opacity-50"
+                            >
+                                {t.analyzeDurations}
+                            </button>
+                        </div>
+                    )}
+                    <ol className="space-y-0.5 text-xs">
+                        {schedulePreview.clips.map((clip, i) => {
+                            const source = tracks.find(track => track.id === clip.trackId);
+                            return (
+                                <li key={i} className={`flex items-center gap-2 ${clip.layer === 'overlay' ? 'pl-6' : ''}`}>
+                                    <span className="w-12 text-right font-mono text-gray-500">{formatDuration(clip.start / schedulePreview.sampleRate)}</span>
+                                    {source && isRecurring(source) ? <Repeat size={12} className="text-amber-400" /> : clip.type === 'voiceover' ? <Radio size={12} className="text-pink-400" /> : <Music size={12} className="text-gray-500" />}
+                                    <span className={`truncate ${source && isRecurring(source) ? 'text-amber-300' : 'text-gray-300'}`}>{clip.name}</span>
+                                </li>
+                            );
+                        })}
+                    </ol>
+                </div>
+            )}
+
             {/* Footer Action */}
             <div className="p-4 border-t border-gray-800 bg-gray-850">
                 {processing.status !== 'idle' && processing.status !== 'completed' && processing.status !== 'error' ? (
@@ -372,33 +1602,94 @@ const App: React.FC = () => {
                             style={{width: `${processing.progress}%`}}
                         />
                         <Loader2 className="animate-spin mr-3 text-indigo-400" size={20} />
-                        <span className="text-sm font-medium relative z-10">{processing.message}</span>
+                        <span className="text-sm font-medium relative z-10 flex-1 truncate">{processing.message}</span>
+                        {cancelController && (
+                            <button 
+                                onClick={() => cancelController.abort()}
+                                className="relative z-10 flex items-center gap-1 text-xs text-gray-300 hover:text-white bg-gray-700/80 hover:bg-red-900/60 px-3 py-1.5 rounded-full transition-colors"
+                            >
+                                <X size={12} /> {t.cancel}
+                            </button>
+                        )}
                      </div>
-                ) : processing.status === 'completed' && mergedBlob ? (
+                ) : processing.status === 'completed' && exportFiles.length > 0 ? (
                     <div className="flex gap-4">
-                         <a 
-                            href={URL.createObjectURL(mergedBlob)}
-                            download={`storecast_mix_${new Date().toISOString().slice(0,10)}.mp3`}
-                            className="flex-1 bg-green-600 hover:bg-green-500 text-white rounded-lg h-12 flex items-center justify-center gap-2 font-semibold shadow-lg shadow-green-900/20 transition-all hover:scale-[1.02]"
-                        >
-                            <Download size={18} /> {t.download}
-                        </a>
+                        <div className="flex-1 space-y-2">
+                            {exportFiles.map(file => file.blob ? (
+                                <a 
+                                    key={file.name}
+                                    href={URL.createObjectURL(file.blob)}
+                                    download={file.name}
+                                    className="bg-green-600 hover:bg-green-500 text-white rounded-lg h-12 flex items-center justify-center gap-2 font-semibold shadow-lg shadow-green-900/20 transition-all hover:scale-[1.02]"
+                                >
+                                    <Download size={18} /> {exportFiles.length > 1 ? file.name : t.download(file.name.split('.').pop()!.toUpperCase())}
+                                </a>
+                            ) : (
+                                <div key={file.name} className="bg-green-900/30 border border-green-800 text-green-300 rounded-lg h-12 flex items-center justify-center gap-2 text-sm font-semibold">
+                                    <Download size={18} /> {t.savedToFile(file.name)}
+                                </div>
+                            ))}
+                        </div>
                         <button 
-                            onClick={() => { setProcessing({status: 'idle', message: '', progress: 0}); setMergedBlob(null); }}
+                            onClick={() => { setProcessing({status: 'idle', message: '', progress: 0}); setExportFiles([]); }}
                             className="px-6 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-medium"
                         >
                             {t.reset}
                         </button>
                     </div>
                 ) : (
-                    <button 
-                        onClick={processMerge}
-                        disabled={tracks.length === 0}
-                        className="w-full bg-gradient-to-r from-indigo-600 to-cyan-600 hover:from-indigo-500 hover:to-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg h-12 flex items-center justify-center gap-2 font-bold shadow-lg shadow-indigo-900/20 transition-all hover:scale-[1.02]"
-                    >
-                        <Play size={18} fill="currentColor" /> {t.mergeExport}
-                    </button>
+                    <>
+                        {canSaveToFile() && (
+                            <div className="flex items-center justify-end gap-2 mb-2 text-xs text-gray-400">
+                                <label>{t.exportTarget}</label>
+                                <select 
+                                    value={exportTarget}
+                                    onChange={(e) => setExportTarget(e.target.value as ExportTarget)}
+                                    className="bg-gray-800 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    <option value="download">{t.exportTargets.download}</option>
+                                    <option value="file">{t.exportTargets.file}</option>
+                                </select>
+                            </div>
+                        )}
+                        <button 
+                            onClick={processMerge}
+                            disabled={tracks.length === 0}
+                            className="w-full bg-gradient-to-r from-indigo-600 to-cyan-600 hover:from-indigo-500 hover:to-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg h-12 flex items-center justify-center gap-2 font-bold shadow-lg shadow-indigo-900/20 transition-all hover:scale-[1.02]"
+                        >
+                            <Play size={18} fill="currentColor" /> {t.mergeExport}
+                        </button>
+                    </>
                 )}
+
+                {processing.status === 'completed' && exportFiles.map(file => (
+                    <React.Fragment key={file.name}>
+                    <div className="flex flex-wrap items-center justify-center gap-2 mt-3 text-xs text-gray-400">
+                        {exportFiles.length > 1 ? (
+                            <details className="text-left">
+                                <summary className="cursor-pointer">{file.name}</summary>
+                                <ol className="mt-1 list-decimal list-inside text-[10px] text-gray-500">
+                                    {file.tracklist.filter(entry => entry.layer === 'main').map((entry, i) => <li key={i}>{entry.name}</li>)}
+                                </ol>
+                            </details>
+                        ) : (
+                            <span>{t.tracklistDownloads}</span>
+                        )}
+                        {TRACKLIST_FORMATS.map(({ extension, mimeType, build }) => (
+                            <button
+                                key={extension}
+                                onClick={() => downloadText(`${exportBaseName(file.name)}.${extension}`, build(file.tracklist, file.name, storeName), mimeType)}
+                                className="flex items-center gap-1 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded px-2 py-1 font-mono text-gray-300 transition-colors"
+                            >
+                                <ListMusic size={12} /> .{extension}
+                            </button>
+                        ))}
+                    </div>
+                    <p className={`text-center text-[10px] mt-1 ${file.master.clipped > 0 ? 'text-amber-400' : 'text-gray-500'}`}>
+                        {t.masterSummary(file.master.limited / exportSettings.sampleRate, file.master.maxReduction, file.master.clipped)}
+                    </p>
+                    </React.Fragment>
+                ))}
                 
                 {processing.status === 'error' && (
                     <div className="mt-2 text-red-400 text-sm text-center bg-red-900/20 py-2 rounded">
@@ -412,6 +1703,19 @@ const App: React.FC = () => {
         <div className="text-center text-xs text-gray-600">
              <p>{t.processingLocally}</p>
         </div>
+
+        {introStudio && ai && (
+            <IntroStudio 
+                ai={ai}
+                writeScript={introStudio.script === undefined ? writeIntroScript : undefined}
+                initialScript={introStudio.script ?? tracks.find(track => track.id === introStudio.trackId)?.script}
+                initialVoice={tracks.find(track => track.id === introStudio.trackId)?.voice}
+                getAudioContext={getAudioContext}
+                onAdd={handleTakeChosen}
+                onClose={() => setIntroStudio(null)}
+                t={t}
+            />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,75 @@
+import { open, unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { MPEGDecoder } from 'mpg123-decoder';
+import { pcmBuffer } from '../utils/audio';
+import { applyEffects } from '../utils/effects';
+import { createInlineEncoder } from '../utils/encoder';
+import type { ExportSink } from '../utils/exportSink';
+import type { MergePlatform } from '../utils/merge';
+import { resampleChannels } from '../utils/resample';
+import { decodeWav } from '../utils/wav';
+
+// The extensions the pure-JS decoders below can read
+export const DECODABLE = ['.mp3', '.mp2', '.wav'];
+
+const isWav = (bytes: Uint8Array) =>
+  bytes.length >= 12 && String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' && String.fromCharCode(...bytes.subarray(8, 12)) === 'WAVE';
+
+/**
+ * Writes straight into a file in `directory`. Nothing is kept in memory, so `close` resolves to null.
+ */
+const createFileSink = async (directory: string, fileName: string): Promise<ExportSink> => {
+  const filePath = path.join(directory, fileName);
+  const handle = await open(filePath, 'w');
+  return {
+    kind: 'disk',
+    name: fileName,
+    write: async (chunk) => { await handle.write(chunk); },
+    writeAt: async (position, chunk) => { await handle.write(chunk, 0, chunk.length, position); },
+    close: async () => {
+      await handle.close();
+      return null;
+    },
+    abort: async () => {
+      await handle.close().catch(() => {});
+      await unlink(filePath).catch(() => {});
+    },
+  };
+};
+
+/**
+ * Runs the merge without a browser: MP3 through mpg123 compiled to WASM, WAV read directly,
+ * resampling and effects in JS, encoding on the main thread and the output written to `outDir`.
+ */
+export const createNodePlatform = (outDir: string): MergePlatform & { dispose: () => void } => {
+  let mpeg: MPEGDecoder | null = null;
+
+  const decodeMpeg = async (bytes: Uint8Array) => {
+    if (!mpeg) {
+      mpeg = new MPEGDecoder();
+      await mpeg.ready;
+    } else {
+      await mpeg.reset();
+    }
+    const { channelData, samplesDecoded, sampleRate } = mpeg.decode(bytes);
+    if (samplesDecoded === 0) throw new Error('No audio frames found');
+    return { sampleRate, channels: channelData.map(channel => channel.subarray(0, samplesDecoded)) };
+  };
+
+  return {
+    decode: async (track, sampleRate) => {
+      if (!track.file) return null;
+      const bytes = new Uint8Array(await track.file.arrayBuffer());
+      try {
+        const decoded = isWav(bytes) ? decodeWav(bytes) : await decodeMpeg(bytes);
+        return pcmBuffer(resampleChannels(decoded.channels, decoded.sampleRate, sampleRate), sampleRate);
+      } catch (e: any) {
+        throw new Error(`Could not decode ${track.name}: ${e.message}`);
+      }
+    },
+    applyEffects: async (channels, sampleRate, effects) => applyEffects(channels, sampleRate, effects),
+    createEncoder: createInlineEncoder,
+    createSink: (fileName) => createFileSink(outDir, fileName),
+    dispose: () => mpeg?.free(),
+  };
+};
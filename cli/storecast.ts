@@ -0,0 +1,317 @@
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ParseArgsOptionsConfig, parseArgs } from 'node:util';
+import { ExportSettings, Language, Track, VibeType } from '../types';
+import { DOWNMIX_MODES } from '../utils/downmix';
+import { EXPORT_PRESETS, ExportPreset } from '../utils/exportSettings';
+import { MergeConfig, defaultMergeConfig, runMerge } from '../utils/merge';
+import { translations } from '../utils/i18n';
+import { readTags, tagLabel } from '../utils/metadata';
+import { importProjectFile } from '../utils/projects';
+import { MIN_PART_LIMIT, isValidSplit } from '../utils/split';
+import { TRACKLIST_FORMATS, exportBaseName } from '../utils/tracklist';
+import { DECODABLE, createNodePlatform } from './nodePlatform';
+
+const USAGE = `Usage: storecast <folder | playlist.m3u8 | project.storecast.zip> [options]
+
+Merges the songs of a folder (in file name order), a playlist or an exported project into
+a broadcast, and writes it with its tracklists.
+
+  --out <dir>              Where to write the files (default: current directory)
+  --store <name>           Store name, for the tags and the tracklist (default: My Store)
+  --vibe <vibe>            energetic, relaxed, luxury, gym or focus (default: relaxed)
+  --lang <en|zh>           Language of titles and labels (default: en)
+  --date <YYYY-MM-DD>      Date the broadcast is for, goes into the file names (default: today)
+  --voiceover <file>       Voiceover played before the songs, can be given more than once
+
+  --preset <name>          standard, high, voice, wav16 or wav24 (default: standard)
+  --format <mp3|wav>       Overrides the preset
+  --bitrate <kbps>         Constant MP3 bitrate
+  --vbr <0-9>              Variable MP3 bitrate at this quality, 0 is best
+  --sample-rate <Hz>
+  --channels <1|2>
+
+  --crossfade <seconds>    Between songs, 0 for hard cuts (default: 3)
+  --loudness <LUFS|off>    Normalize every track to this loudness, e.g. -16 (default: off)
+  --trim-silence <on|off>  Cut silence at the start and end of tracks (default: on)
+  --ceiling <dBTP|off>     Limit the master to this true peak, e.g. -1 (default: -1)
+  --dither <on|off>        Dither when the output is 16-bit (default: on)
+  --downmix <mode>         Surround sources: auto (ITU), center (dialog only) or front (default: auto)
+
+  --fill-hours <hours>     Repeat the songs until the broadcast is this long
+  --shuffle                With --fill-hours, play in a random order instead of cycling
+  --seed <number>          Shuffle seed, the same seed builds the same order
+  --voiceover-every <min>  With --fill-hours, repeat the voiceovers this often
+
+  --split-minutes <min>    Split into parts of at most this length (at least 1), between tracks
+  --split-mb <MB>          Split into parts of at most this size (at least 1), between tracks
+
+  --tracklist <formats>    Comma-separated: cue, m3u8, json, csv (default: cue)
+  -h, --help
+
+Negative values can be given as --loudness -16 or --loudness=-16, and --ceiling -1 or --ceiling=-1.
+`;
+
+const VIBES: Record<string, VibeType> = {
+  energetic: VibeType.ENERGETIC,
+  relaxed: VibeType.RELAXED,
+  luxury: VibeType.LUXURY,
+  gym: VibeType.GYM,
+  focus: VibeType.FOCUS,
+};
+
+class UsageError extends Error {}
+
+const OPTIONS = {
+  out: { type: 'string', default: '.' },
+  store: { type: 'string' },
+  vibe: { type: 'string' },
+  lang: { type: 'string' },
+  date: { type: 'string' },
+  voiceover: { type: 'string', multiple: true, default: [] },
+  preset: { type: 'string' },
+  format: { type: 'string' },
+  bitrate: { type: 'string' },
+  vbr: { type: 'string' },
+  'sample-rate': { type: 'string' },
+  channels: { type: 'string' },
+  crossfade: { type: 'string' },
+  loudness: { type: 'string' },
+  'trim-silence': { type: 'string' },
+  ceiling: { type: 'string' },
+  dither: { type: 'string' },
+  downmix: { type: 'string' },
+  'fill-hours': { type: 'string' },
+  shuffle: { type: 'boolean', default: false },
+  seed: { type: 'string' },
+  'voiceover-every': { type: 'string' },
+  'split-minutes': { type: 'string' },
+  'split-mb': { type: 'string' },
+  tracklist: { type: 'string', default: 'cue' },
+  help: { type: 'boolean', short: 'h', default: false },
+} satisfies ParseArgsOptionsConfig;
+
+// parseArgs reads "-16" after an option as another option, so negative numbers are attached with "=",
+// to options that take a value only: after a flag like --shuffle it stays a stray argument
+const attachNegativeNumbers = (args: string[]): string[] => {
+  const attached: string[] = [];
+  for (const arg of args) {
+    const previous = attached[attached.length - 1];
+    const option = previous?.startsWith('--') && !previous.includes('=') ? previous.slice(2) : null;
+    if (/^-\d/.test(arg) && option && Object.hasOwn(OPTIONS, option) && OPTIONS[option as keyof typeof OPTIONS].type === 'string') {
+      attached[attached.length - 1] = `${previous}=${arg}`;
+    } else {
+      attached.push(arg);
+    }
+  }
+  return attached;
+};
+
+const number = (value: string, option: string): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new UsageError(`--${option} expects a number, got "${value}"`);
+  return parsed;
+};
+
+const choice = <T extends string>(value: string, choices: readonly T[], option: string): T => {
+  if (!choices.includes(value as T)) throw new UsageError(`--${option} must be one of ${choices.join(', ')}`);
+  return value as T;
+};
+
+let nextId = 0;
+
+const fileTrack = async (filePath: string, type: Track['type']): Promise<Track> => {
+  const file = new File([await readFile(filePath)], path.basename(filePath));
+  const tags = await readTags(file).catch(() => ({}));
+  return {
+    id: `track-${++nextId}`,
+    file,
+    name: tagLabel(tags, file.name.replace(/\.[^.]+$/, '')),
+    duration: 0, // Known once the merge has decoded it
+    type,
+    ...tags,
+  };
+};
+
+const isDecodable = (fileName: string) => DECODABLE.includes(path.extname(fileName).toLowerCase());
+
+// Entries of an M3U playlist, relative to where the playlist is. Streams are skipped.
+const playlistFiles = async (playlist: string): Promise<string[]> =>
+  (await readFile(playlist, 'utf8'))
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#') && !/^[a-z]+:\/\//i.test(line))
+    .map(entry => path.resolve(path.dirname(playlist), entry.replace(/^file:\/\//, '')));
+
+const folderFiles = async (folder: string): Promise<string[]> =>
+  (await readdir(folder, { withFileTypes: true }))
+    .filter(entry => entry.isFile() && isDecodable(entry.name))
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(name => path.join(folder, name));
+
+/**
+ * The queue and any settings that come with the input. A project file brings its own store,
+ * vibe, export and mix settings, which options given on the command line override.
+ */
+const loadInput = async (input: string): Promise<Partial<MergeConfig> & { tracks: Track[] }> => {
+  if (/\.zip$/i.test(input)) {
+    const project = await importProjectFile(new Blob([await readFile(input)]));
+    const tracks = project.tracks.map(({ generatedAudio, ...track }): Track =>
+      generatedAudio ? { ...track, file: new File([generatedAudio], 'generated.wav', { type: 'audio/wav' }) } : track);
+    return {
+      tracks,
+      storeName: project.storeName,
+      vibe: project.vibe,
+      exportSettings: project.exportSettings,
+      ...(project.dayParts ? { dayParts: project.dayParts } : {}),
+      ...(project.split ? { split: project.split } : {}),
+      ...(project.master ? { master: project.master } : {}),
+      ...(project.crossfade ? { crossfade: project.crossfade } : {}),
+      ...(project.ducking ? { ducking: project.ducking } : {}),
+      ...(project.loudness ? { loudness: project.loudness } : {}),
+      ...(project.silenceTrim ? { silenceTrim: project.silenceTrim } : {}),
+      ...(project.fill ? { fill: project.fill } : {}),
+    };
+  }
+
+  const files = /\.m3u8?$/i.test(input) ? await playlistFiles(input) : await folderFiles(input);
+  const skipped = files.filter(file => !isDecodable(file));
+  if (skipped.length > 0) {
+    console.warn(`Skipping ${skipped.length} file(s) that can only be decoded in the browser (${DECODABLE.join(', ')} work here)`);
+  }
+  const tracks: Track[] = [];
+  for (const file of files.filter(isDecodable)) tracks.push(await fileTrack(file, 'music'));
+  return { tracks };
+};
+
+const exportSettingsFrom = (base: ExportSettings, values: Partial<Record<'preset' | 'format' | 'bitrate' | 'vbr' | 'sample-rate' | 'channels', string>>): ExportSettings => {
+  const settings = { ...(values.preset ? EXPORT_PRESETS[choice(values.preset, Object.keys(EXPORT_PRESETS) as ExportPreset[], 'preset')] : base) };
+  if (values.format) settings.format = choice(values.format, ['mp3', 'wav'] as const, 'format');
+  if (values.bitrate) Object.assign(settings, { mp3Mode: 'cbr', bitrate: number(values.bitrate, 'bitrate') });
+  if (values.vbr) Object.assign(settings, { mp3Mode: 'vbr', vbrQuality: Math.max(0, Math.min(9, number(values.vbr, 'vbr'))) });
+  if (values['sample-rate']) settings.sampleRate = number(values['sample-rate'], 'sample-rate');
+  if (values.channels) settings.channels = Number(choice(values.channels, ['1', '2'] as const, 'channels')) as 1 | 2;
+  return settings;
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: attachNegativeNumbers(process.argv.slice(2)),
+    allowPositionals: true,
+    options: OPTIONS,
+  });
+
+  if (values.help || positionals.length !== 1) {
+    (values.help ? console.log : console.error)(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const input = await loadInput(positionals[0]);
+  const voiceovers: Track[] = [];
+  for (const file of values.voiceover) voiceovers.push(await fileTrack(file, 'voiceover'));
+  const tracks = [...voiceovers, ...input.tracks];
+  if (tracks.length === 0) throw new UsageError(`No audio files found in ${positionals[0]}`);
+
+  const config: MergeConfig = { ...defaultMergeConfig(tracks), ...input, tracks };
+  if (values.store) config.storeName = values.store;
+  if (values.vibe) config.vibe = VIBES[choice(values.vibe, Object.keys(VIBES), 'vibe')];
+  if (values.lang) config.language = choice(values.lang, ['en', 'zh'] as Language[], 'lang');
+  if (values.date) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(values.date)) throw new UsageError('--date expects YYYY-MM-DD');
+    config.date = values.date;
+  }
+  config.exportSettings = exportSettingsFrom(config.exportSettings, values);
+  if (values.crossfade) config.crossfade = { ...config.crossfade, music: { ...config.crossfade.music, duration: Math.max(0, number(values.crossfade, 'crossfade')) } };
+  if (values.loudness) {
+    config.loudness = values.loudness === 'off'
+      ? { ...config.loudness, enabled: false }
+      : { ...config.loudness, enabled: true, targetLufs: number(values.loudness, 'loudness') };
+  }
+  if (values.downmix) {
+    // Tracks from a project keep the downmix they were given there
+    const downmix = choice(values.downmix, DOWNMIX_MODES, 'downmix');
+    config.tracks = config.tracks.map(track => track.downmix ? track : { ...track, downmix });
+  }
+  if (values['trim-silence']) config.silenceTrim = { ...config.silenceTrim, enabled: choice(values['trim-silence'], ['on', 'off'] as const, 'trim-silence') === 'on' };
+  if (values.ceiling) {
+    config.master = values.ceiling === 'off'
+      ? { ...config.master, limiter: false }
+      : { ...config.master, limiter: true, ceiling: Math.min(0, number(values.ceiling, 'ceiling')) };
+  }
+  if (values.dither) config.master = { ...config.master, dither: choice(values.dither, ['on', 'off'] as const, 'dither') === 'on' };
+  if (values['fill-hours']) {
+    config.fill = {
+      ...config.fill,
+      enabled: true,
+      targetMinutes: number(values['fill-hours'], 'fill-hours') * 60,
+      order: values.shuffle ? 'shuffle' : 'cycle',
+      ...(values.seed ? { seed: number(values.seed, 'seed') } : {}),
+      ...(values['voiceover-every'] ? { voiceoverEvery: number(values['voiceover-every'], 'voiceover-every') } : {}),
+    };
+  }
+  if (values['split-minutes']) config.split = { ...config.split, mode: 'minutes', maxMinutes: number(values['split-minutes'], 'split-minutes') };
+  if (values['split-mb']) config.split = { ...config.split, mode: 'megabytes', maxMegabytes: number(values['split-mb'], 'split-mb') };
+  if (!isValidSplit(config.split)) {
+    throw new UsageError(`--${config.split.mode === 'minutes' ? 'split-minutes' : 'split-mb'} must be at least ${MIN_PART_LIMIT}`);
+  }
+  const formats = values.tracklist.split(',').map(extension => extension.trim()).filter(Boolean).map(extension => {
+    const format = TRACKLIST_FORMATS.find(f => f.extension === extension);
+    if (!format) throw new UsageError(`Unknown tracklist format "${extension}"`);
+    return format;
+  });
+
+  await mkdir(values.out, { recursive: true });
+  const platform = createNodePlatform(values.out);
+  // Ctrl+C stops the merge and removes the half-written file
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  let lastLine = '';
+  let lastStep = '';
+  try {
+    const { files } = await runMerge(config, platform, {
+      signal: controller.signal,
+      onProgress: ({ message, progress }) => {
+        const line = `[${Math.floor(progress).toString().padStart(3)}%] ${message}`;
+        // A line that updates in place on a terminal, a line per step (not per mixed block) in logs
+        const step = message.replace(/\d+:\d+/g, '');
+        if (process.stderr.isTTY) {
+          process.stderr.write(`\r${line}`.padEnd(lastLine.length + 1));
+        } else if (step !== lastStep) {
+          process.stderr.write(line + '\n');
+        }
+        lastLine = line;
+        lastStep = step;
+      },
+    });
+    if (process.stderr.isTTY) process.stderr.write('\n');
+
+    const t = translations[config.language];
+    for (const file of files) {
+      console.log(path.join(values.out, file.name));
+      // Next to the progress, so stdout stays a list of paths
+      process.stderr.write(`  ${t.masterSummary(file.master.limited / config.exportSettings.sampleRate, file.master.maxReduction, file.master.clipped)}\n`);
+      for (const format of formats) {
+        const tracklistPath = path.join(values.out, `${exportBaseName(file.name)}.${format.extension}`);
+        await writeFile(tracklistPath, format.build(file.tracklist, file.name, config.storeName));
+        console.log(tracklistPath);
+      }
+    }
+    return 0;
+  } finally {
+    platform.dispose();
+  }
+};
+
+main().then(
+  code => process.exit(code),
+  (e: any) => {
+    if (e?.name === 'AbortError') {
+      console.error('\nCancelled');
+      process.exit(130);
+    }
+    console.error(e instanceof UsageError || e?.code?.startsWith?.('ERR_PARSE_ARGS') ? `${e.message}\n\n${USAGE}` : `Error: ${e?.message ?? e}`);
+    process.exit(e instanceof UsageError || e?.code?.startsWith?.('ERR_PARSE_ARGS') ? 2 : 1);
+  }
+);
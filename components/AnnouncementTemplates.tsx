@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Megaphone, Mic, Plus, Pencil, Trash2, X } from 'lucide-react';
+import { AnnouncementTemplate, Language } from '../types';
+import { BUILT_IN_TEMPLATES, fillTemplate, loadCustomTemplates, saveCustomTemplates, templatePlaceholders } from '../utils/templates';
+import { translations } from '../utils/i18n';
+
+interface AnnouncementTemplatesProps {
+  storeName: string;
+  values: Record<string, string>; // Placeholder values, saved with the project
+  onValuesChange: (values: Record<string, string>) => void;
+  lang: Language;
+  onRecord: (name: string, script: string) => void;
+  t: (typeof translations)[Language];
+}
+
+const LANGUAGES: Language[] = ['en', 'zh'];
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "block text-xs uppercase tracking-wider text-gray-500 mb-1";
+
+/**
+ * Ready-made announcements with {placeholders}. The filled text goes to the voiceover studio,
+ * where it can still be edited before it is recorded.
+ */
+const AnnouncementTemplates: React.FC<AnnouncementTemplatesProps> = ({ storeName, values, onValuesChange, lang, onRecord, t }) => {
+  const [customTemplates, setCustomTemplates] = useState<AnnouncementTemplate[]>(loadCustomTemplates);
+  const [selectedId, setSelectedId] = useState(BUILT_IN_TEMPLATES[0].id);
+  const [language, setLanguage] = useState<Language>(lang);
+  const [editing, setEditing] = useState<AnnouncementTemplate | null>(null);
+
+  const templates = [...BUILT_IN_TEMPLATES, ...customTemplates];
+  const template = templates.find(tpl => tpl.id === selectedId) ?? templates[0];
+  const text = template.text[language] || template.text[lang] || '';
+  // The store name always comes from the store settings
+  const filled = { ...values, storeName };
+  const script = fillTemplate(text, filled);
+  const fields = templatePlaceholders(text).filter(name => name !== 'storeName');
+  const missing = templatePlaceholders(script);
+
+  const updateCustomTemplates = (next: AnnouncementTemplate[]) => {
+    setCustomTemplates(next);
+    saveCustomTemplates(next);
+  };
+
+  const handleSaveTemplate = () => {
+    if (!editing) return;
+    const exists = customTemplates.some(tpl => tpl.id === editing.id);
+    updateCustomTemplates(exists ? customTemplates.map(tpl => tpl.id === editing.id ? editing : tpl) : [...customTemplates, editing]);
+    setSelectedId(editing.id);
+    setEditing(null);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!confirm(t.confirmDeleteTemplate(template.name[lang]))) return;
+    updateCustomTemplates(customTemplates.filter(tpl => tpl.id !== template.id));
+    setSelectedId(BUILT_IN_TEMPLATES[0].id);
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-6 rounded-2xl border border-gray-800 backdrop-blur-sm space-y-4">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Megaphone size={20} className="text-amber-400" /> {t.announcements}
+      </h2>
+
+      {editing ? (
+        <div className="space-y-3">
+          <div>
+            <label className={labelClass}>{t.templateName}</label>
+            <input
+              type="text"
+              value={editing.name[lang]}
+              onChange={(e) => setEditing({ ...editing, name: { en: e.target.value, zh: e.target.value } })}
+              className={inputClass}
+            />
+          </div>
+          {LANGUAGES.map(l => (
+            <div key={l}>
+              <label className={labelClass}>{t.templateText(t.languages[l])}</label>
+              <textarea
+                value={editing.text[l]}
+                onChange={(e) => setEditing({ ...editing, text: { ...editing.text, [l]: e.target.value } })}
+                rows={3}
+                className={inputClass}
+              />
+            </div>
+          ))}
+          <p className="text-[10px] text-gray-500">{t.templateHelp}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSaveTemplate}
+              disabled={!editing.name[lang].trim() || !LANGUAGES.some(l => editing.text[l].trim())}
+              className="flex-1 py-2 rounded-lg text-sm bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50"
+            >
+              {t.saveTemplate}
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm bg-gray-800 border border-gray-700 hover:bg-gray-700"
+            >
+              <X size={14} /> {t.cancel}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>{t.template}</label>
+              <select value={template.id} onChange={(e) => setSelectedId(e.target.value)} className={inputClass}>
+                {templates.map(tpl => <option key={tpl.id} value={tpl.id}>{tpl.name[lang]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t.templateLanguage}</label>
+              <select value={language} onChange={(e) => setLanguage(e.target.value as Language)} className={inputClass}>
+                {LANGUAGES.map(l => <option key={l} value={l}>{t.languages[l]}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex gap-2 text-xs">
+            <button
+              onClick={() => setEditing({ id: 'custom-' + Date.now(), name: { en: '', zh: '' }, text: { en: '', zh: '' } })}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 border border-gray-700 hover:bg-gray-700"
+            >
+              <Plus size={12} /> {t.newTemplate}
+            </button>
+            {!template.builtIn && (
+              <>
+                <button
+                  onClick={() => setEditing(template)}
+                  className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 border border-gray-700 hover:bg-gray-700"
+                >
+                  <Pencil size={12} /> {t.editTemplate}
+                </button>
+                <button
+                  onClick={handleDeleteTemplate}
+                  className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 border border-gray-700 hover:bg-red-900/40 hover:text-red-300"
+                >
+                  <Trash2 size={12} /> {t.deleteTemplate}
+                </button>
+              </>
+            )}
+          </div>
+
+          {fields.length > 0 && (
+            <div className="grid grid-cols-2 gap-3">
+              {fields.map(name => (
+                <div key={name}>
+                  <label className={labelClass}>{t.placeholders[name] ?? name}</label>
+                  <input
+                    type="text"
+                    value={values[name] ?? ''}
+                    onChange={(e) => onValuesChange({ ...values, [name]: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-300 bg-gray-800/60 rounded-lg p-3 whitespace-pre-wrap">{script}</p>
+          {missing.length > 0 && (
+            <p className="text-xs text-yellow-400">{t.missingValues(missing.map(name => t.placeholders[name] ?? name).join(', '))}</p>
+          )}
+
+          <button
+            onClick={() => onRecord(template.name[lang], script)}
+            disabled={!script.trim()}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-semibold bg-gradient-to-r from-pink-600 to-purple-600 hover:from-pink-500 hover:to-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Mic size={16} /> {t.recordAnnouncement}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnnouncementTemplates;
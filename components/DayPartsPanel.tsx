@@ -0,0 +1,206 @@
+import React from 'react';
+import { CalendarClock, Mic, Plus, Sparkles, Trash2 } from 'lucide-react';
+import { DayPart, DayPartSettings, Language, Track, VibeType } from '../types';
+import { formatDuration } from '../utils/audio';
+import { blockMinutes, blockTracks, defaultDayParts, newDayPartId, orderedBlocks } from '../utils/dayparts';
+import { translations } from '../utils/i18n';
+
+interface DayPartsPanelProps {
+  settings: DayPartSettings;
+  onChange: (settings: DayPartSettings) => void;
+  tracks: Track[];
+  busy: boolean;
+  onRecordIntro: (block: DayPart) => void;
+  onWriteMissingIntros: () => void;
+  t: (typeof translations)[Language];
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "block text-xs uppercase tracking-wider text-gray-500 mb-1";
+
+/**
+ * Time-of-day blocks, each with its own vibe, songs, announcements and intro.
+ * The main queue acts as the library the blocks pick from.
+ */
+const DayPartsPanel: React.FC<DayPartsPanelProps> = ({ settings, onChange, tracks, busy, onRecordIntro, onWriteMissingIntros, t }) => {
+  const songs = tracks.filter(track => track.type === 'music');
+  const introIds = new Set(settings.blocks.map(block => block.introId));
+  // Other blocks' intros aren't offered as announcements
+  const voiceovers = tracks.filter(track => track.type === 'voiceover' && !introIds.has(track.id));
+  const blocks = orderedBlocks(settings.blocks);
+
+  const updateBlock = (id: string, changes: Partial<DayPart>) =>
+    onChange({ ...settings, blocks: settings.blocks.map(block => block.id === id ? { ...block, ...changes } : block) });
+
+  const toggle = (ids: string[], id: string) => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id];
+
+  const addBlock = () => {
+    const last = blocks[blocks.length - 1];
+    const start = last?.end ?? '08:00';
+    onChange({
+      ...settings,
+      blocks: [...settings.blocks, { id: newDayPartId(), name: t.blockName(settings.blocks.length + 1), start, end: start, vibe: VibeType.RELAXED, trackIds: [], announcementIds: [] }],
+    });
+  };
+
+  const missingIntros = settings.blocks.some(block => !tracks.some(track => track.id === block.introId));
+
+  return (
+    <div className="bg-gray-900/50 p-6 rounded-2xl border border-gray-800 backdrop-blur-sm space-y-4">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <CalendarClock size={20} className="text-cyan-400" /> {t.dayParts}
+      </h2>
+
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({
+            ...settings,
+            enabled: e.target.checked,
+            blocks: e.target.checked && settings.blocks.length === 0
+              ? defaultDayParts({ morning: t.morning, afternoon: t.afternoon, evening: t.evening })
+              : settings.blocks,
+          })}
+          className="accent-indigo-500"
+        />
+        {t.useDayParts}
+      </label>
+
+      {settings.enabled && (
+        <>
+          <div>
+            <label className={labelClass}>{t.dayPartOutput}</label>
+            <select
+              value={settings.output}
+              onChange={(e) => onChange({ ...settings, output: e.target.value as DayPartSettings['output'] })}
+              className={inputClass}
+            >
+              <option value="perBlock">{t.dayPartOutputs.perBlock}</option>
+              <option value="continuous">{t.dayPartOutputs.continuous}</option>
+            </select>
+          </div>
+
+          {blocks.map(block => {
+            const { songs: pool, intro } = blockTracks(block, tracks);
+            return (
+              <div key={block.id} className="p-3 rounded-xl bg-gray-800/40 border border-gray-700/50 space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={block.name}
+                    onChange={(e) => updateBlock(block.id, { name: e.target.value })}
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => onChange({ ...settings, blocks: settings.blocks.filter(other => other.id !== block.id) })}
+                    title={t.removeBlock}
+                    className="p-2 text-gray-500 hover:text-red-400"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className={labelClass}>{t.blockStart}</label>
+                    <input type="time" value={block.start} onChange={(e) => updateBlock(block.id, { start: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>{t.blockEnd}</label>
+                    <input type="time" value={block.end} onChange={(e) => updateBlock(block.id, { end: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>{t.blockLength}</label>
+                    <p className="py-2 text-sm font-mono text-gray-300">{formatDuration(blockMinutes(block) * 60)}</p>
+                  </div>
+                </div>
+
+                <div>
+                  <label className={labelClass}>{t.targetVibe}</label>
+                  <select
+                    value={block.vibe}
+                    onChange={(e) => updateBlock(block.id, { vibe: e.target.value as VibeType })}
+                    className={inputClass}
+                  >
+                    {Object.values(VibeType).map(v => <option key={v} value={v}>{t.vibes[v]}</option>)}
+                  </select>
+                </div>
+
+                <details>
+                  <summary className="text-xs text-gray-400 cursor-pointer">
+                    {block.trackIds.length === 0 ? t.blockAllSongs(songs.length) : t.blockSongs(pool.length)}
+                  </summary>
+                  <div className="mt-2 max-h-40 overflow-y-auto space-y-1">
+                    {songs.map(song => (
+                      <label key={song.id} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={block.trackIds.includes(song.id)}
+                          onChange={() => updateBlock(block.id, { trackIds: toggle(block.trackIds, song.id) })}
+                          className="accent-indigo-500"
+                        />
+                        <span className="truncate">{song.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </details>
+
+                {voiceovers.length > 0 && (
+                  <details>
+                    <summary className="text-xs text-gray-400 cursor-pointer">{t.blockAnnouncements(block.announcementIds.filter(id => voiceovers.some(v => v.id === id)).length)}</summary>
+                    <div className="mt-2 max-h-40 overflow-y-auto space-y-1">
+                      {voiceovers.map(voiceover => (
+                        <label key={voiceover.id} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={block.announcementIds.includes(voiceover.id)}
+                            onChange={() => updateBlock(block.id, { announcementIds: toggle(block.announcementIds, voiceover.id) })}
+                            className="accent-indigo-500"
+                          />
+                          <span className="truncate">{voiceover.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </details>
+                )}
+
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className={`truncate ${intro ? 'text-pink-300' : 'text-gray-500'}`}>{intro ? intro.name : t.noBlockIntro}</span>
+                  <button
+                    onClick={() => onRecordIntro(block)}
+                    disabled={busy}
+                    className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 border border-gray-700 hover:bg-gray-700 disabled:opacity-50 shrink-0"
+                  >
+                    <Mic size={12} /> {intro ? t.editScript : t.blockIntro}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex gap-2 text-xs">
+            <button
+              onClick={addBlock}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 border border-gray-700 hover:bg-gray-700"
+            >
+              <Plus size={12} /> {t.addBlock}
+            </button>
+            {missingIntros && (
+              <button
+                onClick={onWriteMissingIntros}
+                disabled={busy}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 border border-gray-700 hover:bg-gray-700 disabled:opacity-50"
+              >
+                <Sparkles size={12} /> {t.writeMissingIntros}
+              </button>
+            )}
+          </div>
+          <p className="text-[10px] text-gray-500">{t.dayPartsHelp}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DayPartsPanel;
@@ -0,0 +1,231 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Square, Loader2, X, Wand2, Mic, Check } from 'lucide-react';
+import { Language, SpeakingStyle, VoiceSettings } from '../types';
+import { formatDuration } from '../utils/audio';
+import { DEFAULT_VOICE, TTS_VOICES, synthesizeSpeech } from '../services/geminiService';
+import { AiProvider, aiErrorMessage } from '../services/aiProvider';
+import { translations } from '../utils/i18n';
+
+export interface VoiceoverTake {
+  buffer: AudioBuffer;
+  script: string;
+  voice: VoiceSettings;
+}
+
+interface IntroStudioProps {
+  ai: AiProvider;
+  writeScript?: (maxWords: number, signal: AbortSignal) => Promise<string>; // Left out when the script comes from elsewhere, e.g. a template
+  initialScript?: string;
+  initialVoice?: VoiceSettings;
+  getAudioContext: () => AudioContext;
+  onAdd: (take: VoiceoverTake) => void;
+  onClose: () => void;
+  t: (typeof translations)[Language];
+}
+
+const MAX_TAKES = 4;
+
+/**
+ * Script → voice → takes, so a voiceover is read and heard before it goes into the queue.
+ * Every take is a separate TTS call and keeps the script and voice it was made with.
+ */
+const IntroStudio: React.FC<IntroStudioProps> = ({ ai, writeScript, initialScript, initialVoice, getAudioContext, onAdd, onClose, t }) => {
+  const [script, setScript] = useState(initialScript ?? '');
+  const [voice, setVoice] = useState<VoiceSettings>(initialVoice ?? DEFAULT_VOICE);
+  const [maxWords, setMaxWords] = useState(20);
+  const [takeCount, setTakeCount] = useState(2);
+  const [takes, setTakes] = useState<VoiceoverTake[]>([]);
+  const [busy, setBusy] = useState<'script' | 'takes' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState<number | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Requests still running when the studio closes are dropped
+  const abortRef = useRef(new AbortController());
+
+  const stop = () => {
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      sourceRef.current.stop();
+      sourceRef.current = null;
+    }
+    setPlaying(null);
+  };
+
+  useEffect(() => () => {
+    stop();
+    abortRef.current.abort();
+  }, []);
+
+  const handleWriteScript = async () => {
+    setBusy('script');
+    setError(null);
+    try {
+      setScript(await writeScript!(maxWords, abortRef.current.signal));
+    } catch (e: any) {
+      if (abortRef.current.signal.aborted) return;
+      setError(t.statusTTSError + aiErrorMessage(e, t.aiErrors));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSynthesize = async () => {
+    stop();
+    setBusy('takes');
+    setError(null);
+    try {
+      const ctx = getAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+      for (let i = 0; i < takeCount; i++) {
+        const buffer = await synthesizeSpeech(ai, script.trim(), voice, ctx, { signal: abortRef.current.signal });
+        // Shown as they arrive, so the first can be auditioned while the others render
+        setTakes(prev => [...prev, { buffer, script: script.trim(), voice }]);
+      }
+    } catch (e: any) {
+      if (abortRef.current.signal.aborted) return;
+      setError(t.statusTTSError + aiErrorMessage(e, t.aiErrors));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const audition = async (index: number) => {
+    stop();
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+    const source = ctx.createBufferSource();
+    source.buffer = takes[index].buffer;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      sourceRef.current = null;
+      setPlaying(null);
+    };
+    source.start();
+    sourceRef.current = source;
+    setPlaying(index);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-lg bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl p-6 space-y-4 max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Mic size={20} className="text-pink-400" /> {t.introStudio}
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-300"><X size={18} /></button>
+        </div>
+
+        {/* 1–2: write and edit the script */}
+        <div>
+          <div className="flex items-end justify-between gap-2 mb-1">
+            <label className="block text-xs uppercase tracking-wider text-gray-500">{t.introScript}</label>
+            {writeScript && (
+              <div className="flex items-center gap-2 text-xs text-gray-400">
+                <input
+                  type="number"
+                  min={5}
+                  max={150}
+                  step={5}
+                  value={maxWords}
+                  onChange={(e) => setMaxWords(Math.max(5, Math.round(Number(e.target.value))))}
+                  title={t.maxWords}
+                  className="w-14 bg-gray-800 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <span>{t.words}</span>
+                <button
+                  onClick={handleWriteScript}
+                  disabled={busy !== null}
+                  className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 border border-gray-700 hover:bg-gray-700 disabled:opacity-50"
+                >
+                  {busy === 'script' ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />} {t.writeScript}
+                </button>
+              </div>
+            )}
+          </div>
+          <textarea
+            value={script}
+            onChange={(e) => setScript(e.target.value)}
+            rows={4}
+            placeholder={t.scriptPlaceholder}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+
+        {/* 3: voice and delivery */}
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.voice}</label>
+            <select
+              value={voice.voice}
+              onChange={(e) => setVoice(prev => ({ ...prev, voice: e.target.value }))}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {TTS_VOICES.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.speakingStyle}</label>
+            <select
+              value={voice.style}
+              onChange={(e) => setVoice(prev => ({ ...prev, style: e.target.value as SpeakingStyle }))}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {(Object.keys(t.speakingStyles) as SpeakingStyle[]).map(style => (
+                <option key={style} value={style}>{t.speakingStyles[style]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs uppercase tracking-wider text-gray-500 mb-1">{t.takes}</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_TAKES}
+              value={takeCount}
+              onChange={(e) => setTakeCount(Math.min(MAX_TAKES, Math.max(1, Math.round(Number(e.target.value)))))}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+        </div>
+
+        <button
+          onClick={handleSynthesize}
+          disabled={busy !== null || !script.trim()}
+          className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-semibold bg-gradient-to-r from-pink-600 to-purple-600 hover:from-pink-500 hover:to-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {busy === 'takes' ? <Loader2 size={16} className="animate-spin" /> : <Mic size={16} />} {t.synthesizeTakes(takeCount)}
+        </button>
+
+        {error && <p className="text-xs text-red-400 bg-red-900/20 rounded px-2 py-1">{error}</p>}
+
+        {/* 4: audition and pick */}
+        {takes.length > 0 && (
+          <ul className="space-y-1">
+            {takes.map((take, i) => (
+              <li key={i} className="flex items-center gap-3 p-2 rounded-lg bg-gray-800/60 text-sm">
+                <button
+                  onClick={() => playing === i ? stop() : audition(i)}
+                  className="p-2 rounded-full bg-gray-700 hover:bg-gray-600"
+                >
+                  {playing === i ? <Square size={12} /> : <Play size={12} fill="currentColor" />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-200">{t.takeLabel(i + 1)} · <span className="font-mono text-gray-400">{formatDuration(take.buffer.duration)}</span></p>
+                  <p className="text-[10px] text-gray-500 truncate">{take.voice.voice} · {t.speakingStyles[take.voice.style]} · {take.script}</p>
+                </div>
+                <button
+                  onClick={() => { stop(); onAdd(take); }}
+                  className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500"
+                >
+                  <Check size={12} /> {t.useTake}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IntroStudio;
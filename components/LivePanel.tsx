@@ -0,0 +1,229 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Clock, Download, History, Play, Radio, SkipForward, Square, Trash2 } from 'lucide-react';
+import { CrossfadeSettings, DuckingSettings, Language, LiveSettings, MasterSettings, Track } from '../types';
+import { StereoChannels, formatDuration } from '../utils/audio';
+import { downloadBlob } from '../utils/exportSink';
+import { translations } from '../utils/i18n';
+import { HISTORY_DAYS, LiveEntry, LivePlayer, LiveState, createLivePlayer, liveHistoryCsv, loadLiveHistory, parseClockTimes, recentLiveHistory, saveLiveHistory } from '../utils/live';
+
+interface LivePanelProps {
+  settings: LiveSettings;
+  onChange: (settings: LiveSettings) => void;
+  tracks: Track[];
+  onTrackChange: (id: string, changes: Partial<Track>) => void;
+  getContext: () => AudioContext;
+  load: (track: Track) => Promise<StereoChannels | null>;
+  crossfade: CrossfadeSettings;
+  ducking: DuckingSettings;
+  master: MasterSettings;
+  t: (typeof translations)[Language];
+}
+
+const timesClass = "w-32 shrink-0 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "block text-xs uppercase tracking-wider text-gray-500 mb-1";
+
+/**
+ * Plays the queue live on the store's PC, with a now-playing display, the times clock
+ * announcements go off at and a log of what played when.
+ */
+const LivePanel: React.FC<LivePanelProps> = ({ settings, onChange, tracks, onTrackChange, getContext, load, crossfade, ducking, master, t }) => {
+  const [state, setState] = useState<LiveState | null>(null);
+  const [history, setHistory] = useState<LiveEntry[]>(loadLiveHistory);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const playerRef = useRef<LivePlayer | null>(null);
+
+  // The player reads these while it runs, so it always sees the latest queue and settings
+  const latest = useRef({ tracks, load, settings, crossfade, ducking, master, t });
+  latest.current = { tracks, load, settings, crossfade, ducking, master, t };
+
+  const playing = state?.playing ?? false;
+  const voiceovers = tracks.filter(track => track.type === 'voiceover');
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [playing]);
+
+  useEffect(() => () => playerRef.current?.stop(), []);
+
+  useEffect(() => saveLiveHistory(history), [history]);
+
+  const start = () => {
+    setError(null);
+    const player = createLivePlayer({
+      context: getContext(),
+      load: (track) => latest.current.load(track),
+      tracks: () => latest.current.tracks,
+      settings: () => ({ live: latest.current.settings, crossfade: latest.current.crossfade, ducking: latest.current.ducking, master: latest.current.master }),
+      onState: setState,
+      onHistory: (entry) => setHistory(prev => recentLiveHistory([entry, ...prev])),
+      onError: (track, e) => {
+        console.error(e);
+        setError(latest.current.t.liveLoadError(track.name));
+      },
+    });
+    playerRef.current = player;
+    player.start();
+  };
+
+  const stop = () => {
+    playerRef.current?.stop();
+    playerRef.current = null;
+  };
+
+  const exportHistory = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(`play-history-${date}.csv`, new Blob([liveHistoryCsv(history)], { type: 'text/csv' }));
+  };
+
+  const current = state?.current;
+  const elapsed = current ? Math.min(current.duration, Math.max(0, (now - current.startedAt) / 1000)) : 0;
+
+  return (
+    <div className="bg-gray-900/50 p-6 rounded-2xl border border-gray-800 backdrop-blur-sm space-y-4">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Radio size={20} className={playing ? 'text-rose-400 animate-pulse' : 'text-rose-400'} /> {t.liveMode}
+      </h2>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.loop}
+            onChange={(e) => onChange({ ...settings, loop: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          {t.liveLoop}
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.shuffle}
+            onChange={(e) => onChange({ ...settings, shuffle: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          {t.liveShuffle}
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        {playing ? (
+          <button
+            onClick={stop}
+            className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-semibold bg-gray-700 border border-gray-600 hover:bg-gray-600 text-gray-200"
+          >
+            <Square size={14} /> {t.liveStop}
+          </button>
+        ) : (
+          <button
+            onClick={start}
+            disabled={tracks.length === 0}
+            className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-semibold bg-rose-600 hover:bg-rose-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play size={14} /> {t.liveStart}
+          </button>
+        )}
+        <button
+          onClick={() => playerRef.current?.skip()}
+          disabled={!playing}
+          title={t.liveSkip}
+          className="px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 hover:bg-gray-700 disabled:opacity-50"
+        >
+          <SkipForward size={14} />
+        </button>
+      </div>
+
+      {state?.suspended && (
+        <button
+          onClick={() => playerRef.current?.resume()}
+          className="w-full py-2 rounded-lg text-xs bg-amber-900/40 border border-amber-700 text-amber-200 hover:bg-amber-900/60"
+        >
+          {t.liveSuspended}
+        </button>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {playing && (
+        <div className="p-3 rounded-xl bg-gray-800/40 border border-gray-700/50 space-y-2 text-xs">
+          <div>
+            <span className="text-gray-500">{t.nowPlaying}</span>
+            <p className="text-sm text-gray-200 truncate">{current?.track.name ?? '—'}</p>
+          </div>
+          {current && (
+            <div>
+              <div className="h-1 bg-gray-700 rounded-full overflow-hidden">
+                <div className="h-full bg-rose-500 transition-all duration-1000 ease-linear" style={{ width: `${(elapsed / current.duration) * 100}%` }}></div>
+              </div>
+              <div className="flex justify-between mt-1 font-mono text-gray-500">
+                <span>{formatDuration(elapsed)}</span>
+                <span>{formatDuration(current.duration)}</span>
+              </div>
+            </div>
+          )}
+          {state?.announcement && <p className="text-pink-300 truncate">{t.liveAnnouncement}: {state.announcement.name}</p>}
+          {state?.next && <p className="text-gray-400 truncate">{t.upNext}: {state.next.name}</p>}
+        </div>
+      )}
+
+      {voiceovers.length > 0 && (
+        <div>
+          <label className={labelClass}>{t.clockAnnouncements}</label>
+          <div className="space-y-2">
+            {voiceovers.map(voiceover => (
+              <div key={voiceover.id} className="flex items-center gap-2">
+                <Clock size={14} className={voiceover.playAt?.length ? 'text-pink-300 shrink-0' : 'text-gray-600 shrink-0'} />
+                <span className="text-xs text-gray-300 truncate flex-1">{voiceover.name}</span>
+                <input
+                  // Typed freely, tidied up on blur
+                  key={(voiceover.playAt ?? []).join(',')}
+                  type="text"
+                  defaultValue={(voiceover.playAt ?? []).join(', ')}
+                  placeholder={t.clockTimesPlaceholder}
+                  onBlur={(e) => {
+                    const playAt = parseClockTimes(e.target.value);
+                    onTrackChange(voiceover.id, { playAt: playAt.length > 0 ? playAt : undefined });
+                  }}
+                  className={timesClass}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-500 mt-1">{t.clockAnnouncementsHelp}</p>
+        </div>
+      )}
+
+      <details>
+        <summary className="text-xs text-gray-400 cursor-pointer flex items-center gap-1">
+          <History size={12} /> {t.playHistory} ({history.length})
+        </summary>
+        <div className="mt-2 max-h-48 overflow-y-auto space-y-1 text-xs">
+          {history.length === 0 && <p className="text-gray-500">{t.noHistory}</p>}
+          {history.length > 0 && (
+            <div className="flex gap-2 pb-1">
+              <button onClick={exportHistory} className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300">
+                <Download size={12} /> {t.exportHistory}
+              </button>
+              <button onClick={() => setHistory([])} className="flex items-center gap-1 text-gray-500 hover:text-red-400">
+                <Trash2 size={12} /> {t.clearHistory}
+              </button>
+            </div>
+          )}
+          <p className="text-[10px] text-gray-500">{t.historyKept(HISTORY_DAYS)}</p>
+          {history.map(entry => (
+            <div key={entry.id} className="flex items-center gap-2">
+              <span className="font-mono text-gray-500 shrink-0">{new Date(entry.startedAt).toLocaleTimeString()}</span>
+              <span className={`truncate ${entry.type === 'voiceover' ? 'text-pink-300' : 'text-gray-300'}`}>{entry.name}</span>
+              {entry.trigger === 'clock' && <span className="text-[10px] text-amber-300 shrink-0">{t.atSetTime}</span>}
+            </div>
+          ))}
+        </div>
+      </details>
+
+      <p className="text-[10px] text-gray-500">{t.liveHelp}</p>
+    </div>
+  );
+};
+
+export default LivePanel;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { DownmixMode, Language, TrackEffects } from '../types';
+import { DOWNMIX_MODES } from '../utils/downmix';
+import { DEFAULT_EFFECTS, MAX_TEMPO_CHANGE, activeEffects } from '../utils/effects';
+import { translations } from '../utils/i18n';
+
+interface TrackEffectsEditorProps {
+  effects?: TrackEffects;
+  onChange: (effects: TrackEffects | undefined) => void;
+  downmix?: DownmixMode;
+  onDownmixChange: (downmix: DownmixMode | undefined) => void;
+  t: (typeof translations)[Language];
+}
+
+const inputClass = "w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Per-track processing under a queue row. Settings that end up all neutral are dropped from the track.
+ */
+const TrackEffectsEditor: React.FC<TrackEffectsEditorProps> = ({ effects, onChange, downmix, onDownmixChange, t }) => {
+  const current = effects ?? DEFAULT_EFFECTS;
+
+  const update = (changes: Partial<TrackEffects>) => {
+    const next = { ...current, ...changes };
+    onChange(activeEffects(next).length > 0 ? next : undefined);
+  };
+
+  const fields: { key: keyof TrackEffects, label: string, min: number, max: number, step: number }[] = [
+    { key: 'gain', label: t.effectGain, min: -24, max: 12, step: 0.5 },
+    { key: 'fadeIn', label: t.effectFadeIn, min: 0, max: 30, step: 0.5 },
+    { key: 'fadeOut', label: t.effectFadeOut, min: 0, max: 30, step: 0.5 },
+    { key: 'tempo', label: t.effectTempo, min: -MAX_TEMPO_CHANGE, max: MAX_TEMPO_CHANGE, step: 1 },
+    { key: 'lowShelf', label: t.effectLowShelf, min: -12, max: 12, step: 1 },
+    { key: 'highShelf', label: t.effectHighShelf, min: -12, max: 12, step: 1 },
+  ];
+
+  return (
+    <div className="ml-9 mt-1 p-2 rounded-lg bg-gray-800 border border-gray-700 text-xs space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        {fields.map(({ key, label, min, max, step }) => (
+          <label key={key} className="flex items-center gap-1 text-gray-400">
+            {label}
+            <input
+              type="number"
+              min={min}
+              max={max}
+              step={step}
+              value={current[key]}
+              onChange={(e) => update({ [key]: clamp(Number(e.target.value) || 0, min, max) })}
+              className={inputClass}
+            />
+          </label>
+        ))}
+        {effects && (
+          <button onClick={() => onChange(undefined)} className="text-gray-400 hover:text-gray-200">
+            {t.resetEffects}
+          </button>
+        )}
+      </div>
+      <p className="text-gray-500">{t.effectsHelp}</p>
+      <label className="flex items-center gap-1 text-gray-400">
+        {t.downmix}
+        <select
+          value={downmix ?? 'auto'}
+          onChange={(e) => onDownmixChange(e.target.value === 'auto' ? undefined : e.target.value as DownmixMode)}
+          className="bg-gray-900 border border-gray-700 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {DOWNMIX_MODES.map(mode => <option key={mode} value={mode}>{t.downmixModes[mode]}</option>)}
+        </select>
+      </label>
+      <p className="text-gray-500">{t.downmixHelp}</p>
+    </div>
+  );
+};
+
+export default TrackEffectsEditor;
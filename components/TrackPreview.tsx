@@ -0,0 +1,220 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Pause, Loader2, X } from 'lucide-react';
+import { Language, Track } from '../types';
+import { decodeAudio, formatDuration } from '../utils/audio';
+import { computePeaks } from '../utils/preview';
+import { translations } from '../utils/i18n';
+
+interface TrackPreviewProps {
+  track: Track;
+  getAudioContext: () => AudioContext;
+  onTrimChange: (inPoint: number | undefined, outPoint: number | undefined) => void;
+  onClose: () => void;
+  t: (typeof translations)[Language];
+}
+
+const MIN_KEPT = 1; // in seconds, markers can't be dragged closer than this
+
+/**
+ * Waveform and transport for one track, with in/out markers that are dragged directly on the waveform.
+ * Mount it with the track id as key, so switching tracks starts from a clean state.
+ */
+const TrackPreview: React.FC<TrackPreviewProps> = ({ track, getAudioContext, onTrimChange, onClose, t }) => {
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState(track.inPoint ?? 0);
+  const [marks, setMarks] = useState({ in: track.inPoint ?? 0, out: track.outPoint ?? Infinity });
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const waveRef = useRef<HTMLDivElement>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const clockRef = useRef({ contextTime: 0, offset: 0 }); // Where playback started, to follow the playhead
+  const frameRef = useRef(0);
+  const dragRef = useRef<'in' | 'out' | null>(null);
+
+  const duration = buffer?.duration ?? 0;
+  const inPoint = marks.in;
+  const outPoint = Math.min(marks.out, duration);
+
+  useEffect(() => {
+    let cancelled = false;
+    const ctx = getAudioContext();
+    const load = track.buffer ? Promise.resolve(track.buffer) : track.file ? decodeAudio(track.file, ctx) : Promise.reject(new Error('No audio'));
+    load
+      .then(decoded => { if (!cancelled) setBuffer(decoded); })
+      .catch(e => { if (!cancelled) setError(e.message || String(e)); });
+    return () => {
+      cancelled = true;
+      stop();
+    };
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !buffer) return;
+    const width = canvas.clientWidth * devicePixelRatio;
+    const height = canvas.clientHeight * devicePixelRatio;
+    canvas.width = width;
+    canvas.height = height;
+    const peaks = computePeaks(buffer, Math.max(1, Math.floor(width / 2)));
+    const g = canvas.getContext('2d')!;
+    g.clearRect(0, 0, width, height);
+    g.fillStyle = '#818cf8';
+    peaks.forEach((peak, i) => {
+      const bar = Math.max(1, peak * height);
+      g.fillRect(i * 2, (height - bar) / 2, 1.5, bar);
+    });
+  }, [buffer]);
+
+  const stop = () => {
+    cancelAnimationFrame(frameRef.current);
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      sourceRef.current.stop();
+      sourceRef.current = null;
+    }
+  };
+
+  const currentPosition = () => {
+    const { contextTime, offset } = clockRef.current;
+    return offset + (getAudioContext().currentTime - contextTime);
+  };
+
+  const play = async (from: number) => {
+    if (!buffer) return;
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+    stop();
+
+    // Only what is between the markers plays, the same as in the mix
+    const offset = from >= inPoint && from < outPoint ? from : inPoint;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      cancelAnimationFrame(frameRef.current);
+      sourceRef.current = null;
+      setPlaying(false);
+      setPosition(outPoint);
+    };
+    source.start(0, offset, outPoint - offset);
+    sourceRef.current = source;
+    clockRef.current = { contextTime: ctx.currentTime, offset };
+    setPlaying(true);
+
+    const follow = () => {
+      setPosition(currentPosition());
+      frameRef.current = requestAnimationFrame(follow);
+    };
+    follow();
+  };
+
+  const pause = () => {
+    setPosition(currentPosition());
+    stop();
+    setPlaying(false);
+  };
+
+  const timeAt = (clientX: number) => {
+    const rect = waveRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const seek = (event: React.MouseEvent) => {
+    if (!buffer) return;
+    const time = timeAt(event.clientX);
+    setPosition(time);
+    if (playing) play(time);
+  };
+
+  const startDrag = (marker: 'in' | 'out') => (event: React.PointerEvent) => {
+    event.stopPropagation();
+    (event.target as HTMLElement).setPointerCapture(event.pointerId);
+    dragRef.current = marker;
+  };
+
+  const drag = (event: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const time = timeAt(event.clientX);
+    setMarks(prev => dragRef.current === 'in'
+      ? { ...prev, in: Math.min(time, Math.min(prev.out, duration) - MIN_KEPT) }
+      : { ...prev, out: Math.max(time, prev.in + MIN_KEPT) });
+  };
+
+  const endDrag = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    // Markers at the very ends are the same as no markers
+    onTrimChange(inPoint > 0.05 ? inPoint : undefined, outPoint < duration - 0.05 ? outPoint : undefined);
+  };
+
+  const resetMarks = () => {
+    setMarks({ in: 0, out: Infinity });
+    onTrimChange(undefined, undefined);
+  };
+
+  const percent = (time: number) => `${duration > 0 ? (time / duration) * 100 : 0}%`;
+
+  return (
+    <div className="border-t border-gray-800 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-xs uppercase tracking-wider text-gray-500 truncate">{t.preview}: <span className="normal-case text-gray-300">{track.name}</span></h4>
+        <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-300"><X size={14} /></button>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-400">{t.previewError} ({error})</p>
+      ) : !buffer ? (
+        <div className="h-20 flex items-center justify-center gap-2 text-xs text-gray-500">
+          <Loader2 size={14} className="animate-spin" /> {t.previewLoading}
+        </div>
+      ) : (
+        <>
+          <div
+            ref={waveRef}
+            onClick={seek}
+            onPointerMove={drag}
+            onPointerUp={endDrag}
+            className="relative h-20 bg-gray-950 rounded-lg overflow-hidden cursor-pointer select-none"
+          >
+            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+            {/* Cut regions */}
+            <div className="absolute inset-y-0 left-0 bg-black/60" style={{ width: percent(inPoint) }} />
+            <div className="absolute inset-y-0 right-0 bg-black/60" style={{ left: percent(outPoint) }} />
+            {/* Playhead */}
+            <div className="absolute inset-y-0 w-px bg-white pointer-events-none" style={{ left: percent(position) }} />
+            {(['in', 'out'] as const).map(marker => (
+              <div
+                key={marker}
+                onPointerDown={startDrag(marker)}
+                onClick={(e) => e.stopPropagation()}
+                title={marker === 'in' ? t.inPoint : t.outPoint}
+                className="absolute inset-y-0 w-3 -ml-1.5 cursor-ew-resize flex justify-center touch-none"
+                style={{ left: percent(marker === 'in' ? inPoint : outPoint) }}
+              >
+                <div className="w-0.5 h-full bg-amber-400" />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3 text-xs text-gray-400">
+            <button
+              onClick={() => playing ? pause() : play(position)}
+              className="p-2 rounded-full bg-indigo-600 hover:bg-indigo-500 text-white"
+            >
+              {playing ? <Pause size={14} /> : <Play size={14} fill="currentColor" />}
+            </button>
+            <span className="font-mono">{formatDuration(position)} / {formatDuration(duration)}</span>
+            <span className="text-amber-300">{t.trimSummary(formatDuration(inPoint), formatDuration(outPoint), formatDuration(outPoint - inPoint))}</span>
+            {(inPoint > 0 || outPoint < duration) && (
+              <button onClick={resetMarks} className="ml-auto underline hover:text-gray-200">{t.resetTrim}</button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TrackPreview;
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AiError, RetryOptions, aiErrorMessage, errorKindForStatus, withRetry } from "./aiProvider";
+
+// Short enough that a test with every retry still finishes quickly
+const FAST: RetryOptions = { retries: 2, baseDelay: 1, maxDelay: 5, timeout: 50 };
+
+// An attempt that only settles when its signal is aborted, like a request that never gets an answer
+const hang = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')), { once: true });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe("errorKindForStatus", () => {
+    it("sorts statuses into what the user can do about them", () => {
+        expect(errorKindForStatus(401)).toBe('invalid_key');
+        expect(errorKindForStatus(403)).toBe('invalid_key');
+        expect(errorKindForStatus(429)).toBe('quota');
+        expect(errorKindForStatus(408)).toBe('network');
+        expect(errorKindForStatus(503)).toBe('network');
+        expect(errorKindForStatus(400)).toBe('bad_response');
+    });
+});
+
+describe("withRetry", () => {
+    it("retries after a quota error and returns the next answer", async () => {
+        const attempt = vi.fn()
+            .mockRejectedValueOnce(new AiError('quota', 'Too many requests', 429))
+            .mockResolvedValueOnce('ok');
+        await expect(withRetry(attempt, undefined, FAST)).resolves.toBe('ok');
+        expect(attempt).toHaveBeenCalledTimes(2);
+    });
+
+    it("waits as long as the service asks before retrying", async () => {
+        vi.useFakeTimers();
+        const attempt = vi.fn()
+            .mockRejectedValueOnce(new AiError('quota', 'Too many requests', 429, 10000))
+            .mockResolvedValueOnce('ok');
+        const result = withRetry(attempt, undefined, FAST);
+        await vi.advanceTimersByTimeAsync(9000);
+        expect(attempt).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1000);
+        await expect(result).resolves.toBe('ok');
+        expect(attempt).toHaveBeenCalledTimes(2);
+    });
+
+    it("gives up after the last retry with the last error", async () => {
+        const attempt = vi.fn().mockRejectedValue(new AiError('quota', 'Too many requests', 429));
+        await expect(withRetry(attempt, undefined, FAST)).rejects.toMatchObject({ kind: 'quota', status: 429 });
+        expect(attempt).toHaveBeenCalledTimes(FAST.retries + 1);
+    });
+
+    it("does not retry an invalid key", async () => {
+        const attempt = vi.fn().mockRejectedValue(new AiError('invalid_key', 'API key not valid', 401));
+        await expect(withRetry(attempt, undefined, FAST)).rejects.toMatchObject({ kind: 'invalid_key' });
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not retry errors it doesn't know", async () => {
+        const attempt = vi.fn().mockRejectedValue(new RangeError('bug'));
+        await expect(withRetry(attempt, undefined, FAST)).rejects.toBeInstanceOf(RangeError);
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it("treats a failed fetch as a network error worth retrying", async () => {
+        const attempt = vi.fn()
+            .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+            .mockResolvedValueOnce('ok');
+        await expect(withRetry(attempt, undefined, FAST)).resolves.toBe('ok');
+        expect(attempt).toHaveBeenCalledTimes(2);
+    });
+
+    it("aborts an attempt that takes too long and reports it as a network error", async () => {
+        const signals: AbortSignal[] = [];
+        const attempt = vi.fn((signal: AbortSignal) => {
+            signals.push(signal);
+            return hang(signal);
+        });
+        const error = await withRetry(attempt, undefined, FAST).catch(e => e);
+        expect(error).toBeInstanceOf(AiError);
+        expect(error.kind).toBe('network');
+        expect(attempt).toHaveBeenCalledTimes(FAST.retries + 1);
+        expect(signals.every(signal => signal.aborted)).toBe(true);
+    });
+
+    it("stops at once when the caller aborts, without retrying", async () => {
+        const controller = new AbortController();
+        const attempt = vi.fn((signal: AbortSignal) => hang(signal));
+        const result = withRetry(attempt, controller.signal, { ...FAST, timeout: 10000 });
+        controller.abort();
+        await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops waiting for the next attempt when the caller aborts", async () => {
+        const controller = new AbortController();
+        const attempt = vi.fn(async () => {
+            controller.abort();
+            throw new AiError('quota', 'Too many requests', 429, 10000);
+        });
+        await expect(withRetry(attempt, controller.signal, FAST)).rejects.toMatchObject({ name: 'AbortError' });
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't start when the caller already aborted", async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const attempt = vi.fn();
+        await expect(withRetry(attempt, controller.signal, FAST)).rejects.toMatchObject({ name: 'AbortError' });
+        expect(attempt).not.toHaveBeenCalled();
+    });
+});
+
+describe("aiErrorMessage", () => {
+    const messages = { invalid_key: 'Check the key', quota: 'Slow down', network: 'Offline', bad_response: 'Odd answer' };
+
+    it("explains typed errors and passes others through", () => {
+        expect(aiErrorMessage(new AiError('quota', 'Too many requests', 429), messages)).toBe('Slow down (Too many requests)');
+        expect(aiErrorMessage(new Error('Boom'), messages)).toBe('Boom');
+        expect(aiErrorMessage('plain', messages)).toBe('plain');
+    });
+});
@@ -0,0 +1,149 @@
+import { AiModels, Language, VibeType, VoiceSettings } from "../types";
+
+export type AiErrorKind = 'invalid_key' | 'quota' | 'network' | 'bad_response';
+
+/**
+ * A failed AI call, sorted into what the user can do about it.
+ * Quota and network errors are worth retrying, the others aren't.
+ */
+export class AiError extends Error {
+    constructor(
+        public kind: AiErrorKind,
+        message: string,
+        public status?: number, // HTTP status, when there was a response
+        public retryAfter?: number // in ms, when the service said how long to wait
+    ) {
+        super(message);
+        this.name = 'AiError';
+    }
+
+    get retryable(): boolean {
+        return this.kind === 'quota' || this.kind === 'network';
+    }
+}
+
+/**
+ * Sorts an HTTP status into an error kind. 5xx counts as a network problem, since trying again usually works.
+ */
+export const errorKindForStatus = (status: number): AiErrorKind =>
+    status === 401 || status === 403 ? 'invalid_key'
+    : status === 429 ? 'quota'
+    : status === 408 || status >= 500 ? 'network'
+    : 'bad_response';
+
+export const DEFAULT_MODELS: AiModels = {
+    text: 'gemini-3-flash-preview',
+    tts: 'gemini-2.5-flash-preview-tts',
+};
+
+export interface ScriptRequest {
+    storeName: string;
+    vibe: VibeType;
+    trackNames: string[];
+    language: Language;
+    maxWords: number;
+}
+
+// Titles and artists from tags tell a model far more than file names do
+export type OrderingItem = { index: number, title: string, artist?: string } | { index: number, name: string };
+
+export interface SpeechAudio {
+    data: Uint8Array;
+    mimeType: string; // e.g. audio/wav, or audio/L16;rate=24000 for raw PCM
+}
+
+export interface AiCallOptions {
+    signal?: AbortSignal;
+}
+
+/**
+ * What the app needs from an AI service. Implementations make a single attempt per call and
+ * throw `AiError`; retries and timeouts are added around them by `withRetry`.
+ */
+export interface AiProvider {
+    writeScript: (request: ScriptRequest, options?: AiCallOptions) => Promise<string>;
+    speak: (script: string, voice: VoiceSettings, options?: AiCallOptions) => Promise<SpeechAudio>;
+    /** Indices of `items` in the suggested play order. */
+    orderTracks: (items: OrderingItem[], vibe: VibeType, options?: AiCallOptions) => Promise<number[]>;
+}
+
+export interface RetryOptions {
+    retries: number;
+    baseDelay: number; // in ms, doubled after every failed attempt
+    maxDelay: number; // in ms
+    timeout: number; // in ms per attempt
+}
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 3, baseDelay: 1000, maxDelay: 15000, timeout: 60000 };
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `attempt` until it succeeds, with exponential backoff and jitter between retryable failures.
+ * Each attempt gets its own signal, aborted when it takes longer than `timeout` (reported as a
+ * network error) or when the caller's `signal` is aborted (rethrown as an AbortError, never retried).
+ */
+export const withRetry = async <T>(
+    attempt: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    options: RetryOptions = DEFAULT_RETRY
+): Promise<T> => {
+    for (let n = 0; ; n++) {
+        if (signal?.aborted) throw abortError();
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, options.timeout);
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        try {
+            return await attempt(controller.signal);
+        } catch (e: any) {
+            if (signal?.aborted) throw abortError();
+            const error = timedOut ? new AiError('network', `No response within ${options.timeout / 1000} s`)
+                : e instanceof AiError ? e
+                // fetch rejects with a TypeError when the request never got an answer
+                : e instanceof TypeError ? new AiError('network', e.message)
+                : e;
+            if (!(error instanceof AiError) || !error.retryable || n >= options.retries) throw error;
+            const backoff = Math.min(options.maxDelay, options.baseDelay * 2 ** n) * (0.5 + Math.random() / 2);
+            await sleep(Math.max(backoff, error.retryAfter ?? 0), signal);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+};
+
+/**
+ * Adds retries, timeouts and abort handling to every call of a provider.
+ */
+export const withRetries = (provider: AiProvider, options: RetryOptions = DEFAULT_RETRY): AiProvider => ({
+    writeScript: (request, { signal } = {}) => withRetry(s => provider.writeScript(request, { signal: s }), signal, options),
+    speak: (script, voice, { signal } = {}) => withRetry(s => provider.speak(script, voice, { signal: s }), signal, options),
+    orderTracks: (items, vibe, { signal } = {}) => withRetry(s => provider.orderTracks(items, vibe, { signal: s }), signal, options),
+});
+
+/**
+ * A message for the user: what went wrong for typed errors, the raw message otherwise.
+ */
+export const aiErrorMessage = (e: unknown, messages: Record<AiErrorKind, string>): string =>
+    e instanceof AiError ? `${messages[e.kind]} (${e.message})`
+    : e instanceof Error && e.message ? e.message
+    : String(e);
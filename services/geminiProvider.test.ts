@@ -0,0 +1,31 @@
+import { ApiError } from "@google/genai";
+import { describe, expect, it } from "vitest";
+import { AiError } from "./aiProvider";
+import { toAiError } from "./geminiProvider";
+
+describe("toAiError", () => {
+    it("sorts SDK errors by status", () => {
+        expect(toAiError(new ApiError({ message: 'Resource exhausted', status: 429 }))).toMatchObject({ kind: 'quota', status: 429 });
+        expect(toAiError(new ApiError({ message: 'Permission denied', status: 403 }))).toMatchObject({ kind: 'invalid_key' });
+        expect(toAiError(new ApiError({ message: 'Internal error', status: 500 }))).toMatchObject({ kind: 'network' });
+    });
+
+    it("reads a rejected key out of a 400", () => {
+        expect(toAiError(new ApiError({ message: 'API key not valid. Please pass a valid API key.', status: 400 }))).toMatchObject({ kind: 'invalid_key' });
+        expect(toAiError(new ApiError({ message: 'Invalid argument', status: 400 }))).toMatchObject({ kind: 'bad_response' });
+    });
+
+    it("maps unreadable answers and failed requests", () => {
+        expect(toAiError(new SyntaxError('Unexpected token'))).toMatchObject({ kind: 'bad_response' });
+        expect(toAiError(new TypeError('Failed to fetch'))).toMatchObject({ kind: 'network' });
+    });
+
+    it("leaves aborts, typed errors and anything else as they are", () => {
+        const abort = new DOMException('The operation was aborted.', 'AbortError');
+        const typed = new AiError('quota', 'Too many requests', 429);
+        const other = new RangeError('bug');
+        expect(toAiError(abort)).toBe(abort);
+        expect(toAiError(typed)).toBe(typed);
+        expect(toAiError(other)).toBe(other);
+    });
+});
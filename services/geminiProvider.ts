@@ -0,0 +1,128 @@
+import { ApiError, GoogleGenAI, Modality, Type } from "@google/genai";
+import { AiModels, SpeakingStyle } from "../types";
+import { AiError, AiProvider, DEFAULT_MODELS, errorKindForStatus } from "./aiProvider";
+
+// The TTS model takes delivery instructions as a lead-in to the text
+const STYLE_PROMPTS: Record<SpeakingStyle, string | null> = {
+    neutral: null,
+    warm: 'Say warmly and welcomingly',
+    cheerful: 'Say cheerfully',
+    calm: 'Say slowly and calmly',
+    energetic: 'Say with lots of energy and excitement',
+    elegant: 'Say in a refined, elegant tone',
+};
+
+// The SDK reports HTTP failures as ApiError with a status, and anything else as it comes
+export const toAiError = (e: unknown): unknown => {
+    if (e instanceof AiError || (e instanceof Error && e.name === 'AbortError')) return e;
+    if (e instanceof ApiError) {
+        const kind = e.status === 400 && /api key/i.test(e.message) ? 'invalid_key' : errorKindForStatus(e.status);
+        return new AiError(kind, e.message, e.status);
+    }
+    if (e instanceof SyntaxError) return new AiError('bad_response', e.message);
+    return e instanceof TypeError ? new AiError('network', e.message) : e;
+};
+
+const call = async <T>(run: () => Promise<T>): Promise<T> => {
+    try {
+        return await run();
+    } catch (e) {
+        throw toAiError(e);
+    }
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+/**
+ * Google Gemini, for scripts, speech and ordering.
+ */
+export const createGeminiProvider = (apiKey: string, models: AiModels = DEFAULT_MODELS): AiProvider => {
+    if (!apiKey) {
+        throw new AiError('invalid_key', "API Key is missing.");
+    }
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        writeScript: async ({ storeName, vibe, trackNames, language, maxWords }, { signal } = {}) => {
+            const langPrompt = language === 'zh' ? 'Mandarin Chinese' : 'English';
+
+            const scriptPrompt = `
+    You are a professional radio host for a store called "${storeName}".
+    The store vibe is ${vibe}.
+    The playlist includes songs like: ${trackNames.slice(0, 3).join(', ')} and others.
+    Write a short, welcoming intro script (max ${maxWords} words) in ${langPrompt} welcoming customers and introducing the music.
+    Do not include any sound effects or stage directions, just the spoken text.
+    `;
+
+            const textResponse = await call(() => ai.models.generateContent({
+                model: models.text,
+                contents: scriptPrompt,
+                config: { abortSignal: signal },
+            }));
+
+            return textResponse.text?.trim() || `Welcome to ${storeName}, enjoy the music.`;
+        },
+
+        speak: async (script, voice, { signal } = {}) => {
+            const style = STYLE_PROMPTS[voice.style];
+            const ttsResponse = await call(() => ai.models.generateContent({
+                model: models.tts,
+                contents: [{ parts: [{ text: style ? `${style}: ${script}` : script }] }],
+                config: {
+                    abortSignal: signal,
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName: voice.voice },
+                        },
+                    },
+                },
+            }));
+
+            const audio = ttsResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+            if (!audio?.data) {
+                throw new AiError('bad_response', "Failed to generate TTS audio data.");
+            }
+            return { data: base64ToBytes(audio.data), mimeType: audio.mimeType || 'audio/L16;rate=24000' };
+        },
+
+        orderTracks: async (items, vibe, { signal } = {}) => {
+            const prompt = `
+    I have a list of songs. I need to order them to create a perfect "${vibe}" progression.
+    Return a JSON object with a single property "order" which is an array of indices.
+
+    Songs:
+    ${JSON.stringify(items)}
+    `;
+
+            const response = await call(() => ai.models.generateContent({
+                model: models.text,
+                contents: prompt,
+                config: {
+                    abortSignal: signal,
+                    responseMimeType: "application/json",
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            order: {
+                                type: Type.ARRAY,
+                                items: { type: Type.INTEGER }
+                            }
+                        }
+                    }
+                }
+            }));
+
+            const result = await call(async () => JSON.parse(response.text || "{}"));
+            if (!Array.isArray(result.order)) {
+                throw new AiError('bad_response', "The response has no order.");
+            }
+            return result.order;
+        },
+    };
+};
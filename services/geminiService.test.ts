@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { Track, VibeType } from "../types";
+import { AiProvider, RetryOptions, withRetries } from "./aiProvider";
+import { DEFAULT_VOICE, generateIntroScript, sortTracksSmartly, synthesizeSpeech } from "./geminiService";
+import { MockProviderOptions, createMockProvider } from "./mockProvider";
+
+const FAST: RetryOptions = { retries: 2, baseDelay: 1, maxDelay: 5, timeout: 200 };
+
+const mock = (options: MockProviderOptions = {}): AiProvider => withRetries(createMockProvider({ latency: 0, ...options }), FAST);
+
+const track = (id: string, name: string, tags: Partial<Track> = {}): Track => ({ id, file: null, name, duration: 180, type: 'music', ...tags });
+
+// Hands back the bytes instead of decoding them, there's no audio stack under test
+const fakeContext = () => {
+    const decodeAudioData = vi.fn(async (data: ArrayBuffer) => ({ length: data.byteLength }) as unknown as AudioBuffer);
+    return { context: { decodeAudioData } as unknown as BaseAudioContext, decodeAudioData };
+};
+
+describe("the AI flow through the mock provider", () => {
+    it("writes a script in the chosen language", async () => {
+        const script = await generateIntroScript(mock(), 'Longcheng', VibeType.RELAXED, ['Blue in Green'], 'en');
+        expect(script).toContain('Longcheng');
+        expect(script).toContain('Blue in Green');
+        expect(await generateIntroScript(mock(), '龙城店', VibeType.RELAXED, [], 'zh')).toContain('欢迎光临龙城店');
+    });
+
+    it("speaks a script as a WAV that grows with the text", async () => {
+        const { context, decodeAudioData } = fakeContext();
+        await synthesizeSpeech(mock(), 'Welcome', DEFAULT_VOICE, context);
+        await synthesizeSpeech(mock(), 'Welcome to the store, enjoy your visit', DEFAULT_VOICE, context);
+        const [short, long] = decodeAudioData.mock.calls.map(([data]) => new Uint8Array(data));
+        expect(new TextDecoder().decode(short.subarray(0, 4))).toBe('RIFF');
+        expect(new TextDecoder().decode(short.subarray(8, 12))).toBe('WAVE');
+        expect(long.length).toBeGreaterThan(short.length);
+    });
+
+    it("orders tracks by tag title when there is one and keeps every track", async () => {
+        const tracks = [
+            track('a', '03 - zebra.mp3', { title: 'Autumn Leaves', artist: 'Chet Baker' }),
+            track('b', 'Cantaloupe Island.mp3'),
+            track('c', '01 - track.mp3', { title: 'Blue in Green' }),
+        ];
+        const sorted = await sortTracksSmartly(mock(), tracks, VibeType.RELAXED);
+        expect(sorted.map(t => t.id)).toEqual(['a', 'c', 'b']);
+    });
+
+    it("gets through quota and network errors by retrying", async () => {
+        const script = await generateIntroScript(mock({ failures: ['quota', 'network'] }), 'Longcheng', VibeType.RELAXED, [], 'en');
+        expect(script).toContain('Longcheng');
+    });
+
+    it("reports an invalid key without trying again", async () => {
+        const provider = mock({ failures: ['invalid_key'] });
+        await expect(generateIntroScript(provider, 'Longcheng', VibeType.RELAXED, [], 'en')).rejects.toMatchObject({ kind: 'invalid_key', status: 401 });
+        // The failure was used up by the one attempt, so the next call goes through
+        await expect(generateIntroScript(provider, 'Longcheng', VibeType.RELAXED, [], 'en')).resolves.toContain('Longcheng');
+    });
+
+    it("gives up on a provider that stays too slow", async () => {
+        const provider = withRetries(createMockProvider({ latency: 1000 }), { ...FAST, timeout: 20 });
+        await expect(sortTracksSmartly(provider, [track('a', 'a.mp3')], VibeType.RELAXED)).rejects.toMatchObject({ kind: 'network' });
+    });
+
+    it("stops when the caller aborts", async () => {
+        const controller = new AbortController();
+        const provider = withRetries(createMockProvider({ latency: 1000 }), FAST);
+        const script = generateIntroScript(provider, 'Longcheng', VibeType.RELAXED, [], 'en', 20, { signal: controller.signal });
+        controller.abort();
+        await expect(script).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
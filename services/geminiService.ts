@@ -1,103 +1,115 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { VibeType, Track, Language } from "../types";
-import { decodeBase64Audio } from "../utils/audio";
-
-// Helper to ensure we have a key
-const getAI = (apiKey: string) => {
-    if (!apiKey) {
-        throw new Error("API Key is missing.");
+import { VibeType, Track, Language, VoiceSettings, AiSettings } from "../types";
+import { AiCallOptions, AiProvider, DEFAULT_MODELS, SpeechAudio, withRetries } from "./aiProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createHttpProvider } from "./httpProvider";
+import { createMockProvider } from "./mockProvider";
+
+export const TTS_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const DEFAULT_VOICE: VoiceSettings = { voice: 'Kore', style: 'neutral' }; // 'Fenrir' is deep, 'Kore' is calm
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+    provider: 'gemini',
+    models: DEFAULT_MODELS,
+    endpoint: 'http://localhost:8787',
+};
+
+// Provider and models belong to this browser, like the API key
+const SETTINGS_KEY = 'ai_settings';
+
+export const loadAiSettings = (): AiSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+        return { ...DEFAULT_AI_SETTINGS, ...saved, models: { ...DEFAULT_MODELS, ...saved.models } };
+    } catch {
+        return DEFAULT_AI_SETTINGS;
+    }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * The configured provider with retries and timeouts, or null when Gemini is chosen but there's no key.
+ */
+export const createProvider = (settings: AiSettings, apiKey: string): AiProvider | null => {
+    switch (settings.provider) {
+        case 'mock':
+            return withRetries(createMockProvider());
+        case 'http':
+            return withRetries(createHttpProvider(settings.endpoint, apiKey, settings.models));
+        default:
+            return apiKey ? withRetries(createGeminiProvider(apiKey, settings.models)) : null;
+    }
+};
+
+// An API key on its own means Gemini with the default models, as before providers existed
+const resolve = (ai: AiProvider | string): AiProvider =>
+    typeof ai === 'string' ? withRetries(createGeminiProvider(ai)) : ai;
+
+/**
+ * Turns TTS output into an AudioBuffer. Raw PCM (audio/L16, as Gemini returns it) is read
+ * directly, anything with a container goes through the browser's decoder.
+ */
+const decodeSpeech = async ({ data, mimeType }: SpeechAudio, ctx: BaseAudioContext): Promise<AudioBuffer> => {
+    if (/^audio\/(L16|pcm)/i.test(mimeType)) {
+        const sampleRate = Number(/rate=(\d+)/i.exec(mimeType)?.[1] ?? 24000);
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        const buffer = ctx.createBuffer(1, Math.floor(data.byteLength / 2), sampleRate);
+        const channel = buffer.getChannelData(0);
+        for (let i = 0; i < channel.length; i++) channel[i] = view.getInt16(i * 2, true) / 32768;
+        return buffer;
     }
-    return new GoogleGenAI({ apiKey });
+    return await ctx.decodeAudioData(data.slice().buffer);
 };
 
 /**
- * Generates an intro voiceover for the store playlist.
+ * Writes an intro script for the store playlist, to be reviewed before it is spoken.
+ */
+export const generateIntroScript = (
+    ai: AiProvider | string,
+    storeName: string,
+    vibe: VibeType,
+    trackNames: string[],
+    language: Language,
+    maxWords = 20,
+    options?: AiCallOptions
+): Promise<string> => resolve(ai).writeScript({ storeName, vibe, trackNames, language, maxWords }, options);
+
+/**
+ * Speaks a script with the chosen voice and style.
+ * Each call is a fresh take, the delivery varies a little between them.
+ */
+export const synthesizeSpeech = async (
+    ai: AiProvider | string,
+    script: string,
+    voice: VoiceSettings,
+    ctx: BaseAudioContext,
+    options?: AiCallOptions
+): Promise<AudioBuffer> => decodeSpeech(await resolve(ai).speak(script, voice, options), ctx);
+
+/**
+ * Writes and speaks an intro in one go, without a chance to review it.
  */
 export const generateIntroAudio = async (
-    apiKey: string,
+    ai: AiProvider | string,
     storeName: string,
     vibe: VibeType,
     trackNames: string[],
-    ctx: AudioContext,
+    ctx: BaseAudioContext,
     language: Language
 ): Promise<AudioBuffer> => {
-    const ai = getAI(apiKey);
-
-    const langPrompt = language === 'zh' ? 'Mandarin Chinese' : 'English';
-
-    // 1. Generate the Script
-    const scriptPrompt = `
-    You are a professional radio host for a store called "${storeName}".
-    The store vibe is ${vibe}.
-    The playlist includes songs like: ${trackNames.slice(0, 3).join(', ')} and others.
-    Write a very short, welcoming intro script (max 20 words) in ${langPrompt} welcoming customers and introducing the music.
-    Do not include any sound effects or stage directions, just the spoken text.
-    `;
-
-    const textResponse = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: scriptPrompt,
-    });
-    
-    const script = textResponse.text || `Welcome to ${storeName}, enjoy the music.`;
-
-    // 2. Convert Script to Speech
-    const ttsResponse = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: script }] }],
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: {
-                    prebuiltVoiceConfig: { voiceName: 'Kore' }, // 'Fenrir' is deep, 'Kore' is calm
-                },
-            },
-        },
-    });
-
-    const base64Audio = ttsResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
-        throw new Error("Failed to generate TTS audio data.");
-    }
-
-    return await decodeBase64Audio(base64Audio, ctx);
+    const script = await generateIntroScript(ai, storeName, vibe, trackNames, language);
+    return await synthesizeSpeech(ai, script, DEFAULT_VOICE, ctx);
 };
 
 /**
- * Sorts the tracks based on a desired vibe using Gemini.
+ * Sorts the tracks based on a desired vibe. Tracks the model leaves out keep their relative order at the end.
  */
-export const sortTracksSmartly = async (apiKey: string, tracks: Track[], vibe: VibeType): Promise<Track[]> => {
-    const ai = getAI(apiKey);
-    
-    const trackList = tracks.map((t, index) => ({ index, name: t.name }));
-    
-    const prompt = `
-    I have a list of songs. I need to order them to create a perfect "${vibe}" progression.
-    Return a JSON object with a single property "order" which is an array of indices.
-    
-    Songs:
-    ${JSON.stringify(trackList)}
-    `;
-
-    const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    order: {
-                        type: Type.ARRAY,
-                        items: { type: Type.INTEGER }
-                    }
-                }
-            }
-        }
-    });
-
-    const result = JSON.parse(response.text || "{}");
-    const newOrderIndices: number[] = result.order || [];
+export const sortTracksSmartly = async (ai: AiProvider | string, tracks: Track[], vibe: VibeType, options?: AiCallOptions): Promise<Track[]> => {
+    const trackList = tracks.map((t, index) => t.title ? { index, title: t.title, artist: t.artist } : { index, name: t.name });
+    const newOrderIndices = await resolve(ai).orderTracks(trackList, vibe, options);
 
     // Map back to track objects
     const sortedTracks: Track[] = [];
@@ -105,7 +117,7 @@ export const sortTracksSmartly = async (apiKey: string, tracks: Track[], vibe: V
 
     // Add in the AI suggested order
     newOrderIndices.forEach(index => {
-        if (index >= 0 && index < tracks.length) {
+        if (Number.isInteger(index) && index >= 0 && index < tracks.length && !usedIndices.has(index)) {
             sortedTracks.push(tracks[index]);
             usedIndices.add(index);
         }
@@ -119,4 +131,4 @@ export const sortTracksSmartly = async (apiKey: string, tracks: Track[], vibe: V
     });
 
     return sortedTracks;
-};
\ No newline at end of file
+};
@@ -0,0 +1,69 @@
+import { AiModels } from "../types";
+import { AiError, AiProvider, DEFAULT_MODELS, errorKindForStatus } from "./aiProvider";
+
+/**
+ * A provider behind a plain HTTP endpoint, e.g. a local model server or a test double.
+ *
+ *   POST {endpoint}/script  { model, storeName, vibe, trackNames, language, maxWords } → { "text": "..." }
+ *   POST {endpoint}/speech  { model, script, voice, style } → audio bytes, typed by Content-Type
+ *   POST {endpoint}/order   { model, vibe, items } → { "order": [2, 0, 1] }
+ *
+ * 401/403 mean an invalid key, 429 a quota limit (Retry-After is honoured) and 5xx a server hiccup.
+ */
+export const createHttpProvider = (endpoint: string, apiKey = '', models: AiModels = DEFAULT_MODELS): AiProvider => {
+    const base = endpoint.replace(/\/+$/, '');
+
+    const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${base}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const retryAfter = Number(response.headers.get('Retry-After'));
+            throw new AiError(
+                errorKindForStatus(response.status),
+                `${response.status} ${response.statusText} from ${path}`,
+                response.status,
+                retryAfter > 0 ? retryAfter * 1000 : undefined
+            );
+        }
+        return response;
+    };
+
+    const json = async (response: Response): Promise<any> => {
+        try {
+            return await response.json();
+        } catch (e: any) {
+            throw new AiError('bad_response', `Not JSON: ${e.message}`, response.status);
+        }
+    };
+
+    return {
+        writeScript: async (request, { signal } = {}) => {
+            const { text } = await json(await post('/script', { model: models.text, ...request }, signal));
+            if (typeof text !== 'string' || !text.trim()) {
+                throw new AiError('bad_response', "The response has no text.");
+            }
+            return text.trim();
+        },
+
+        speak: async (script, voice, { signal } = {}) => {
+            const response = await post('/speech', { model: models.tts, script, voice: voice.voice, style: voice.style }, signal);
+            const data = new Uint8Array(await response.arrayBuffer());
+            if (data.length === 0) {
+                throw new AiError('bad_response', "The response has no audio.");
+            }
+            return { data, mimeType: response.headers.get('Content-Type') || 'audio/wav' };
+        },
+
+        orderTracks: async (items, vibe, { signal } = {}) => {
+            const { order } = await json(await post('/order', { model: models.text, vibe, items }, signal));
+            if (!Array.isArray(order)) {
+                throw new AiError('bad_response', "The response has no order.");
+            }
+            return order;
+        },
+    };
+};
@@ -0,0 +1,76 @@
+import { AiError, AiErrorKind, AiProvider } from "./aiProvider";
+import { encodeWavSamples, wavHeader } from "../utils/wav";
+
+export interface MockProviderOptions {
+    latency?: number; // in ms per call
+    failures?: AiErrorKind[]; // Thrown by the first calls, in order, to exercise retries and error messages
+}
+
+const SAMPLE_RATE = 24000;
+const SECONDS_PER_WORD = 0.35;
+
+const abortable = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('The operation was aborted.', 'AbortError'));
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// A soft chirp per word, so takes have a plausible length and can be told apart when auditioned
+const speechWav = (script: string): Uint8Array => {
+    const words = Math.max(1, script.trim().split(/\s+/).length, Math.ceil(script.replace(/\s/g, '').length / 4));
+    const wordLength = Math.round(SECONDS_PER_WORD * SAMPLE_RATE);
+    const samples = new Float32Array(words * wordLength);
+    for (let w = 0; w < words; w++) {
+        const frequency = 180 + (w % 5) * 30;
+        for (let i = 0; i < wordLength * 0.8; i++) {
+            const envelope = Math.sin(Math.PI * i / (wordLength * 0.8));
+            samples[w * wordLength + i] = 0.2 * envelope * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+        }
+    }
+    const data = encodeWavSamples([samples], 16);
+    const wav = new Uint8Array(44 + data.length);
+    wav.set(wavHeader(data.length, SAMPLE_RATE, 1, 16));
+    wav.set(data, 44);
+    return wav;
+};
+
+/**
+ * A provider that never leaves the browser: canned scripts, tone "speech" and alphabetical
+ * ordering. For trying the AI features without a key and for exercising the flow offline.
+ */
+export const createMockProvider = ({ latency = 300, failures = [] }: MockProviderOptions = {}): AiProvider => {
+    const pending = [...failures];
+
+    const respond = async <T>(signal: AbortSignal | undefined, result: () => T): Promise<T> => {
+        await abortable(latency, signal);
+        const failure = pending.shift();
+        if (failure) {
+            throw new AiError(failure, `Mock ${failure} error`, failure === 'quota' ? 429 : failure === 'invalid_key' ? 401 : undefined);
+        }
+        return result();
+    };
+
+    return {
+        writeScript: ({ storeName, trackNames, language }, { signal } = {}) => respond(signal, () => {
+            const song = trackNames[0];
+            return language === 'zh'
+                ? `欢迎光临${storeName}！${song ? `接下来为您播放${song}，` : ''}祝您购物愉快。`
+                : `Welcome to ${storeName}! ${song ? `Up next, ${song}. ` : ''}Enjoy your visit.`;
+        }),
+
+        speak: (script, _voice, { signal } = {}) => respond(signal, () => ({ data: speechWav(script), mimeType: 'audio/wav' })),
+
+        orderTracks: (items, _vibe, { signal } = {}) => respond(signal, () =>
+            [...items]
+                .sort((a, b) => ('title' in a ? a.title : a.name).localeCompare('title' in b ? b.title : b.name))
+                .map(item => item.index)
+        ),
+    };
+};
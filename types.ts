@@ -5,6 +5,33 @@ export interface Track {
   name: string;
   duration: number; // in seconds
   type: 'music' | 'voiceover';
+  title?: string; // From the file's tags, when it has them
+  artist?: string;
+  loudness?: LoudnessInfo; // Filled in by the loudness analysis pass
+  features?: AudioFeatures; // Filled in by the local analysis used for sorting without an API key
+  keepSilence?: boolean; // Opt out of silence trimming, e.g. for ambient pieces
+  silenceTrim?: SilenceTrimInfo; // What the last merge removed
+  inPoint?: number; // in seconds of the source, set in the preview; playback starts here
+  outPoint?: number; // in seconds of the source, playback stops here
+  overlay?: boolean; // Voiceover only: play on top of the music instead of between tracks
+  recurrence?: RecurrenceRule; // Voiceover only: repeat through the mix instead of playing once
+  script?: string; // Voiceover only: the text it was spoken from, so it can be regenerated
+  voice?: VoiceSettings; // Voiceover only: how it was spoken
+  effects?: TrackEffects; // Processing applied to this track while merging
+  downmix?: DownmixMode; // Sources with more than two channels: how they fold down; unset = 'auto'
+  playAt?: string[]; // Voiceover only: "HH:MM" times the live player plays it at, instead of from the queue
+}
+
+// 'auto' = the ITU matrix, 'center' = only the centre channel (dialog), 'front' = only front left and right
+export type DownmixMode = 'auto' | 'center' | 'front';
+
+export interface TrackEffects {
+  gain: number; // in dB, on top of loudness normalization
+  fadeIn: number; // in seconds
+  fadeOut: number; // in seconds
+  tempo: number; // in percent, e.g. 5 plays 5% faster at the same pitch; 0 = unchanged
+  lowShelf: number; // in dB, boost or cut of the bass; 0 = flat
+  highShelf: number; // in dB, boost or cut of the treble; 0 = flat
 }
 
 export enum VibeType {
@@ -21,4 +48,172 @@ export interface ProcessingState {
   progress: number; // 0 to 100
 }
 
-export type Language = 'en' | 'zh';
\ No newline at end of file
+export type Language = 'en' | 'zh';
+
+export type SpeakingStyle = 'neutral' | 'warm' | 'cheerful' | 'calm' | 'energetic' | 'elegant';
+
+export interface AnnouncementTemplate {
+  id: string;
+  name: Record<Language, string>;
+  text: Record<Language, string>; // With {placeholders} such as {storeName}
+  builtIn?: boolean;
+}
+
+export type AiProviderKind = 'gemini' | 'http' | 'mock';
+
+export interface AiModels {
+  text: string; // Writes scripts and orders playlists
+  tts: string;
+}
+
+export interface AiSettings {
+  provider: AiProviderKind;
+  models: AiModels;
+  endpoint: string; // Base URL of the local HTTP provider
+}
+
+export interface VoiceSettings {
+  voice: string; // Prebuilt TTS voice name, e.g. 'Kore'
+  style: SpeakingStyle;
+}
+
+export type FadeCurve = 'linear' | 'equalPower';
+
+export interface TransitionRule {
+  duration: number; // in seconds, 0 = hard cut
+  curve: FadeCurve;
+  overlap: boolean; // true = crossfade, false = fade out then fade in
+}
+
+export interface CrossfadeSettings {
+  music: TransitionRule; // Default between two music tracks
+  voiceover: TransitionRule; // Used whenever a voiceover is on either side
+  overrides: Record<string, TransitionRule>; // Keyed by the id of the incoming track
+}
+
+export interface AudioFeatures {
+  tempo: number; // in BPM, 0 when no clear beat was found
+  energy: number; // RMS level in dBFS
+  brightness: number; // spectral centroid in Hz
+  duration: number; // in seconds
+}
+
+export interface LoudnessSettings {
+  enabled: boolean;
+  targetLufs: number; // e.g. -16
+  maxTruePeak: number; // in dBTP, gain is capped so peaks stay below this
+}
+
+export interface LoudnessInfo {
+  integrated: number; // in LUFS
+  truePeak: number; // in dBTP
+}
+
+export interface MasterSettings {
+  limiter: boolean; // Look-ahead peak limiter on the mix, instead of clipping at 0 dBFS
+  ceiling: number; // in dBTP, the limiter keeps (estimated) true peaks below this
+  lookahead: number; // in ms, how early the limiter starts turning down before a peak
+  release: number; // in ms, how fast it comes back up
+  dither: boolean; // TPDF dither when the output is 16-bit
+}
+
+export interface MasterStats {
+  limited: number; // Samples the limiter turned down, per channel pair
+  clipped: number; // Samples that still went past full scale and were clipped
+  maxReduction: number; // in dB, the most the limiter turned down
+}
+
+export interface LiveSettings {
+  loop: boolean; // Start the queue over when it ends
+  shuffle: boolean; // Songs in a new random order on every pass
+}
+
+export interface SilenceTrimSettings {
+  enabled: boolean;
+  thresholdDb: number; // in dBFS, anything quieter counts as silence
+  minDuration: number; // in seconds, shorter gaps are left alone
+}
+
+export interface SilenceTrimInfo {
+  start: number; // seconds removed from the beginning
+  end: number; // seconds removed from the end
+}
+
+export interface RecurrenceRule {
+  mode: 'minutes' | 'songs';
+  every: number; // e.g. every 20 minutes or every 4 songs
+}
+
+export interface FillSettings {
+  enabled: boolean;
+  targetMinutes: number; // Length of the broadcast to build
+  order: 'cycle' | 'shuffle'; // Play the library in queue order again and again, or in a random order
+  minSpacing: number; // Other songs that must play before a song can repeat
+  voiceoverEvery: number; // in minutes, how often the queue's voiceovers come back; 0 = only at the start
+  seed: number; // Shuffle seed, kept so the preview and the export build the same order
+}
+
+export interface DayPart {
+  id: string;
+  name: string;
+  start: string; // "HH:MM"
+  end: string; // "HH:MM", earlier than start when the block runs past midnight
+  vibe: VibeType;
+  trackIds: string[]; // Songs that can play in this block, empty = the whole library
+  announcementIds: string[]; // Voiceovers that play in this block
+  introId?: string; // Voiceover that opens the block, written for its vibe
+}
+
+export interface DayPartSettings {
+  enabled: boolean;
+  blocks: DayPart[];
+  output: 'perBlock' | 'continuous'; // A file for each block, or one file with the blocks back to back
+}
+
+export interface DuckingSettings {
+  amount: number; // in dB, how far the music drops under a voiceover
+  attack: number; // in seconds, music starts ducking this long before the voice
+  release: number; // in seconds, time for the music to come back up
+  leadIn: number; // in seconds of music before an overlaid voiceover starts
+}
+
+export interface Fade {
+  length: number; // in samples
+  curve: FadeCurve;
+}
+
+export interface TimelineClip {
+  trackId: string;
+  name: string;
+  type: 'music' | 'voiceover';
+  layer: 'main' | 'overlay';
+  start: number; // in samples on the output timeline
+  length: number; // in samples, after trimming
+  fadeIn: Fade | null;
+  fadeOut: Fade | null;
+}
+
+export interface Timeline {
+  sampleRate: number;
+  length: number; // in samples
+  clips: TimelineClip[];
+  duckRegions: { start: number, end: number }[]; // in samples, where overlays are speaking
+}
+
+export type ExportFormat = 'mp3' | 'wav';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  mp3Mode: 'cbr' | 'vbr';
+  bitrate: number; // in kbps, for CBR
+  vbrQuality: number; // 0 (best) to 9 (smallest), for VBR
+  channels: 1 | 2;
+  sampleRate: number; // in Hz, every source is resampled to this
+  bitDepth: 16 | 24; // for WAV
+}
+
+export interface SplitSettings {
+  mode: 'off' | 'minutes' | 'megabytes'; // What limits the length of a part
+  maxMinutes: number;
+  maxMegabytes: number; // in MB of 1,000,000 bytes, as players and USB sticks count them
+}
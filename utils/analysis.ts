@@ -0,0 +1,252 @@
+import { AudioFeatures, Track, VibeType } from '../types';
+
+const EXCERPT_SECONDS = 90; // Tempo and brightness come from this much of the middle of the track
+const TEMPO_RATE = 11025; // Onsets don't need more than this
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+
+// In-place radix-2 FFT, `re.length` must be a power of two
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+};
+
+const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+const rmsDb = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / Math.max(1, samples.length));
+  return rms > 0 ? 20 * Math.log10(rms) : -100;
+};
+
+/**
+ * Spectral centroid in Hz, averaged over frames and weighted by how loud each frame is.
+ */
+const spectralCentroid = (samples: Float32Array, sampleRate: number): number => {
+  const size = 2048;
+  const hop = Math.max(size, Math.floor(sampleRate / 4)); // Four frames a second is plenty for an average
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  let weighted = 0;
+  let total = 0;
+
+  for (let start = 0; start + size <= samples.length; start += hop) {
+    for (let i = 0; i < size; i++) {
+      re[i] = samples[start + i] * (0.5 - 0.5 * Math.cos(2 * Math.PI * i / (size - 1)));
+      im[i] = 0;
+    }
+    fft(re, im);
+    let frameSum = 0;
+    let frameWeighted = 0;
+    for (let k = 1; k < size / 2; k++) {
+      const magnitude = Math.hypot(re[k], im[k]);
+      frameSum += magnitude;
+      frameWeighted += magnitude * k * sampleRate / size;
+    }
+    weighted += frameWeighted;
+    total += frameSum;
+  }
+  return total > 0 ? weighted / total : 0;
+};
+
+/**
+ * Tempo from the autocorrelation of an onset envelope (rises in short-time energy).
+ * Lags near 120 BPM are slightly preferred, which settles most half/double tempo ambiguity.
+ * Returns 0 when there is no clear pulse.
+ */
+const estimateTempo = (samples: Float32Array, sampleRate: number): number => {
+  const factor = Math.max(1, Math.round(sampleRate / TEMPO_RATE));
+  const rate = sampleRate / factor;
+  const frame = 512;
+  const hop = 256;
+  const fps = rate / hop;
+
+  const decimated = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < decimated.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    decimated[i] = sum / factor;
+  }
+
+  const frames = Math.floor((decimated.length - frame) / hop);
+  if (frames < 4 * fps) return 0;
+  const onsets = new Float32Array(frames);
+  let previous = 0;
+  for (let f = 0; f < frames; f++) {
+    let energy = 0;
+    for (let i = f * hop; i < f * hop + frame; i++) energy += decimated[i] * decimated[i];
+    const level = Math.log(1e-9 + energy);
+    onsets[f] = f > 0 ? Math.max(0, level - previous) : 0;
+    previous = level;
+  }
+  const mean = onsets.reduce((sum, v) => sum + v, 0) / frames;
+  for (let f = 0; f < frames; f++) onsets[f] -= mean;
+
+  const minLag = Math.floor(60 * fps / MAX_BPM);
+  const maxLag = Math.ceil(60 * fps / MIN_BPM);
+  const scores = new Float32Array(maxLag + 2);
+  let zeroLag = 0;
+  for (let f = 0; f < frames; f++) zeroLag += onsets[f] * onsets[f];
+  if (zeroLag === 0) return 0;
+
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let f = 0; f + lag < frames; f++) sum += onsets[f] * onsets[f + lag];
+    scores[lag] = sum / zeroLag;
+    const bpm = 60 * fps / lag;
+    const preference = Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120), 2));
+    if (lag <= maxLag && scores[lag] * preference > bestScore) {
+      bestScore = scores[lag] * preference;
+      bestLag = lag;
+    }
+  }
+  if (bestLag === 0 || scores[bestLag] < 0.05) return 0;
+
+  // Parabolic interpolation between neighbouring lags for a less quantized BPM
+  const [a, b, c] = [scores[bestLag - 1], scores[bestLag], scores[bestLag + 1]];
+  const shift = a - 2 * b + c !== 0 ? 0.5 * (a - c) / (a - 2 * b + c) : 0;
+  return Math.round(600 * fps / (bestLag + Math.max(-0.5, Math.min(0.5, shift)))) / 10;
+};
+
+/**
+ * Tempo, loudness and brightness of a decoded track, enough to order a playlist without a model.
+ */
+export const analyzeFeatures = (buffer: AudioBuffer): AudioFeatures => {
+  const mono = mixToMono(buffer);
+  const excerptLength = Math.min(mono.length, EXCERPT_SECONDS * buffer.sampleRate);
+  const excerptStart = Math.floor((mono.length - excerptLength) / 2);
+  const excerpt = mono.subarray(excerptStart, excerptStart + excerptLength);
+
+  return {
+    tempo: estimateTempo(excerpt, buffer.sampleRate),
+    energy: rmsDb(mono),
+    brightness: spectralCentroid(excerpt, buffer.sampleRate),
+    duration: buffer.duration,
+  };
+};
+
+// Analysis is slow next to everything else, so results are kept per file across sessions
+const CACHE_KEY = 'audio_features';
+
+const fileKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const readCache = (): Record<string, AudioFeatures> => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const cachedFeatures = (file: File): AudioFeatures | undefined => readCache()[fileKey(file)];
+
+export const cacheFeatures = (file: File, features: AudioFeatures) => {
+  localStorage.setItem(CACHE_KEY, JSON.stringify({ ...readCache(), [fileKey(file)]: features }));
+};
+
+// A single 0..1 energy score from loudness, tempo and brightness, relative to the rest of the library
+const energyScores = (tracks: Track[]): Map<Track, number> => {
+  const normalize = (values: number[]) => {
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min;
+    return values.map(v => range > 0 ? (v - min) / range : 0.5);
+  };
+  const features = tracks.map(t => t.features!);
+  const energy = normalize(features.map(f => f.energy));
+  // Unknown tempo counts as average
+  const knownTempos = features.filter(f => f.tempo > 0).map(f => f.tempo);
+  const averageTempo = knownTempos.length ? knownTempos.reduce((a, b) => a + b, 0) / knownTempos.length : 0;
+  const tempo = normalize(features.map(f => f.tempo || averageTempo));
+  const brightness = normalize(features.map(f => f.brightness));
+  return new Map(tracks.map((t, i) => [t, 0.5 * energy[i] + 0.3 * tempo[i] + 0.2 * brightness[i]]));
+};
+
+// Name and id break ties, so the same library always sorts the same way
+const byScore = (scores: Map<Track, number>, direction: 1 | -1) => (a: Track, b: Track) =>
+  direction * (scores.get(a)! - scores.get(b)!) || a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+
+// Starts from the most typical track and always moves to the closest remaining one
+const smoothChain = (tracks: Track[], scores: Map<Track, number>): Track[] => {
+  const remaining = [...tracks].sort(byScore(scores, 1));
+  const mean = remaining.reduce((sum, t) => sum + scores.get(t)!, 0) / remaining.length;
+  let current = remaining.reduce((best, t) => Math.abs(scores.get(t)! - mean) < Math.abs(scores.get(best)! - mean) ? t : best);
+  const chain: Track[] = [];
+  while (remaining.length > 0) {
+    remaining.splice(remaining.indexOf(current), 1);
+    chain.push(current);
+    if (remaining.length === 0) break;
+    current = remaining.reduce((best, t) => Math.abs(scores.get(t)! - scores.get(current)!) < Math.abs(scores.get(best)! - scores.get(current)!) ? t : best);
+  }
+  return chain;
+};
+
+// Quiet at both ends, peak in the middle
+const arc = (ascending: Track[]): Track[] => {
+  const rising = ascending.filter((_, i) => i % 2 === 0);
+  const falling = ascending.filter((_, i) => i % 2 === 1).reverse();
+  return [...rising, ...falling];
+};
+
+const ORDERINGS: Record<VibeType, (tracks: Track[], scores: Map<Track, number>) => Track[]> = {
+  // Gradual ramp up in energy
+  [VibeType.ENERGETIC]: (tracks, scores) => [...tracks].sort(byScore(scores, 1)),
+  // Winds down from the liveliest track to the calmest
+  [VibeType.RELAXED]: (tracks, scores) => [...tracks].sort(byScore(scores, -1)),
+  // Builds to a peak and settles again
+  [VibeType.LUXURY]: (tracks, scores) => arc([...tracks].sort(byScore(scores, 1))),
+  // A short warm-up from the calmest fifth, then straight to the most intense tracks
+  [VibeType.GYM]: (tracks, scores) => {
+    const ascending = [...tracks].sort(byScore(scores, 1));
+    const warmUp = ascending.slice(0, Math.floor(ascending.length / 5));
+    return [...warmUp, ...ascending.slice(warmUp.length).reverse()];
+  },
+  // Small steps between neighbours so nothing stands out
+  [VibeType.FOCUS]: smoothChain,
+};
+
+/**
+ * Orders the songs for a vibe using their analyzed features. Voiceovers keep their place in
+ * the queue and the songs are laid out around them. Tracks without features stay where they are.
+ */
+export const sortByFeatures = (tracks: Track[], vibe: VibeType): Track[] => {
+  const songs = tracks.filter(t => t.type === 'music' && t.features);
+  if (songs.length < 2) return tracks;
+  const ordered = ORDERINGS[vibe](songs, energyScores(songs));
+  let next = 0;
+  return tracks.map(t => t.type === 'music' && t.features ? ordered[next++] : t);
+};
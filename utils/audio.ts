@@ -1,39 +1,91 @@
+import { downmix } from './downmix';
+
 /**
  * Decodes an AudioBuffer from a Blob/File using the Web Audio API.
+ * The result is resampled to the context's sample rate.
  */
-export const decodeAudio = async (file: File | Blob, ctx: AudioContext): Promise<AudioBuffer> => {
+export const decodeAudio = async (file: File | Blob, ctx: BaseAudioContext): Promise<AudioBuffer> => {
   const arrayBuffer = await file.arrayBuffer();
   return await ctx.decodeAudioData(arrayBuffer);
 };
 
 /**
- * Extracts Left and Right channel data as Int16Array for MP3 encoding.
+ * Resamples an already decoded buffer by rendering it through an OfflineAudioContext.
+ */
+export const resampleBuffer = async (buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> => {
+  if (buffer.sampleRate === sampleRate) return buffer;
+  const offline = new OfflineAudioContext(buffer.numberOfChannels, Math.ceil(buffer.duration * sampleRate), sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  return await offline.startRendering();
+};
+
+/**
+ * Wraps decoded samples in the parts of the AudioBuffer interface the merge reads,
+ * for where there is no Web Audio to create a real one (the command line).
+ */
+export const pcmBuffer = (channels: Float32Array[], sampleRate: number): AudioBuffer => ({
+  sampleRate,
+  length: channels[0]?.length ?? 0,
+  duration: (channels[0]?.length ?? 0) / sampleRate,
+  numberOfChannels: channels.length,
+  getChannelData: (channel: number) => channels[channel],
+  copyFromChannel: (destination: Float32Array, channel: number, offset = 0) => destination.set(channels[channel].subarray(offset, offset + destination.length)),
+  copyToChannel: (source: Float32Array, channel: number, offset = 0) => channels[channel].set(source, offset),
+}) as unknown as AudioBuffer;
+
+export interface StereoChannels {
+  left: Float32Array;
+  right: Float32Array;
+}
+
+/**
+ * Copies Left and Right channel data out of an AudioBuffer so it can be processed in place.
+ * Handles Mono to Stereo duplication and surround downmixing automatically.
+ */
+export const getStereoChannels = (buffer: AudioBuffer): StereoChannels => downmix(buffer);
+
+/**
+ * A section of the channels, in samples. Shares memory with the source.
+ */
+export const sliceChannels = ({ left, right }: StereoChannels, start: number, end: number): StereoChannels => ({
+  left: left.subarray(start, end),
+  right: right.subarray(start, end),
+});
+
+/**
+ * Converts float channel data to Int16Array for MP3 encoding.
  * Lamejs requires Int16 samples (range [-32768, 32767]).
- * Handles Mono to Stereo duplication automatically.
  */
-export const extractPCM16 = (buffer: AudioBuffer): { left: Int16Array, right: Int16Array } => {
-  const numChannels = buffer.numberOfChannels;
-  const length = buffer.length;
-  
-  const leftFloat = buffer.getChannelData(0);
-  const rightFloat = numChannels > 1 ? buffer.getChannelData(1) : leftFloat; // Duplicate left if mono
+export const floatToPCM16 = ({ left: leftFloat, right: rightFloat }: StereoChannels): { left: Int16Array, right: Int16Array } => {
+  const length = leftFloat.length;
 
   const left = new Int16Array(length);
   const right = new Int16Array(length);
 
+  // Rounded rather than truncated, so dither added upstream averages out. The clamp is a last
+  // resort; the master stage has already limited the mix and counted what it couldn't.
   for (let i = 0; i < length; i++) {
     // Clamp and convert Left
     let s = Math.max(-1, Math.min(1, leftFloat[i]));
-    left[i] = s < 0 ? s * 32768 : s * 32767;
+    left[i] = Math.round(s < 0 ? s * 32768 : s * 32767);
 
     // Clamp and convert Right
     s = Math.max(-1, Math.min(1, rightFloat[i]));
-    right[i] = s < 0 ? s * 32768 : s * 32767;
+    right[i] = Math.round(s < 0 ? s * 32768 : s * 32767);
   }
   
   return { left, right };
 };
 
+/**
+ * Extracts Left and Right channel data as Int16Array for MP3 encoding.
+ * Handles Mono to Stereo duplication and surround downmixing automatically.
+ */
+export const extractPCM16 = (buffer: AudioBuffer): { left: Int16Array, right: Int16Array } => floatToPCM16(downmix(buffer));
+
 /**
  * Helper to get a human readable time string
  */
@@ -0,0 +1,26 @@
+import { CrossfadeSettings, FadeCurve, Track, TransitionRule } from '../types';
+
+export const DEFAULT_CROSSFADE: CrossfadeSettings = {
+  music: { duration: 3, curve: 'equalPower', overlap: true },
+  voiceover: { duration: 0.3, curve: 'linear', overlap: false },
+  overrides: {},
+};
+
+/**
+ * Gain of a fade at a given progress (0 = start of fade, 1 = end of fade).
+ * Equal-power keeps the perceived loudness constant across a crossfade.
+ */
+export const fadeGain = (curve: FadeCurve, progress: number, direction: 'in' | 'out'): number => {
+  const p = direction === 'in' ? progress : 1 - progress;
+  return curve === 'equalPower' ? Math.sin(p * Math.PI / 2) : p;
+};
+
+/**
+ * Picks the rule for the transition between two neighbouring tracks.
+ * Voiceovers never overlap with their neighbours, so an override can change their fade but not add overlap.
+ */
+export const resolveTransition = (settings: CrossfadeSettings, from: Track, to: Track): TransitionRule => {
+  const involvesVoiceover = from.type === 'voiceover' || to.type === 'voiceover';
+  const rule = settings.overrides[to.id] ?? (involvesVoiceover ? settings.voiceover : settings.music);
+  return involvesVoiceover ? { ...rule, overlap: false } : rule;
+};
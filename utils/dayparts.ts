@@ -0,0 +1,86 @@
+import { CrossfadeSettings, DayPart, DayPartSettings, FillSettings, Track, VibeType } from '../types';
+import { sortByFeatures } from './analysis';
+import { fillToDuration } from './fill';
+import { expandSchedule } from './schedule';
+
+export const newDayPartId = () => 'block-' + Math.random().toString(36).substr(2, 9);
+
+const dayPart = (name: string, start: string, end: string, vibe: VibeType): DayPart =>
+  ({ id: newDayPartId(), name, start, end, vibe, trackIds: [], announcementIds: [] });
+
+/**
+ * A typical shop day to start from: calm mornings, lively evenings.
+ */
+export const defaultDayParts = (names: { morning: string, afternoon: string, evening: string }): DayPart[] => [
+  dayPart(names.morning, '08:00', '12:00', VibeType.FOCUS),
+  dayPart(names.afternoon, '12:00', '17:00', VibeType.RELAXED),
+  dayPart(names.evening, '17:00', '22:00', VibeType.ENERGETIC),
+];
+
+export const DEFAULT_DAY_PARTS: DayPartSettings = {
+  enabled: false,
+  blocks: [],
+  output: 'perBlock',
+};
+
+/**
+ * With day parts on, the queue is only the library and each block picks its own songs from it.
+ */
+export const dayPartsActive = (settings: DayPartSettings): boolean => settings.enabled && settings.blocks.length > 0;
+
+const clockMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Length of a block in minutes. A block that ends at or before its start runs past midnight,
+ * so 22:00–02:00 is four hours and 08:00–08:00 a whole day.
+ */
+export const blockMinutes = (block: DayPart): number =>
+  (clockMinutes(block.end) - clockMinutes(block.start) + 1440) % 1440 || 1440;
+
+/**
+ * Blocks in the order they play, by start time.
+ */
+export const orderedBlocks = (blocks: DayPart[]): DayPart[] =>
+  [...blocks].sort((a, b) => clockMinutes(a.start) - clockMinutes(b.start));
+
+/**
+ * The songs of a block, its voiceovers and its intro. Ids of tracks that were removed since are skipped.
+ */
+export const blockTracks = (block: DayPart, tracks: Track[]) => {
+  const songs = tracks.filter(t => t.type === 'music' && (block.trackIds.length === 0 || block.trackIds.includes(t.id)));
+  const announcements = tracks.filter(t => t.type === 'voiceover' && block.announcementIds.includes(t.id) && t.id !== block.introId);
+  const intro = tracks.find(t => t.id === block.introId && t.type === 'voiceover') ?? null;
+  return { songs, announcements, intro };
+};
+
+/**
+ * The merge order of one block: its songs ordered for the block's vibe and repeated until the
+ * time range is filled, the intro first and the announcements coming back by the fill settings
+ * (or by their own recurrence rules).
+ */
+export const arrangeBlock = (
+  block: DayPart,
+  tracks: Track[],
+  durations: Record<string, number>,
+  fill: FillSettings,
+  crossfade: CrossfadeSettings
+): Track[] => {
+  const { songs, announcements, intro } = blockTracks(block, tracks);
+  const queue = [...(intro ? [intro] : []), ...sortByFeatures(songs, block.vibe), ...announcements];
+  const settings = { ...fill, enabled: true, targetMinutes: blockMinutes(block) };
+  return expandSchedule(fillToDuration(queue, durations, settings, crossfade), durations);
+};
+
+/**
+ * Every block back to back, for the continuous export and the planned length.
+ */
+export const arrangeDay = (
+  blocks: DayPart[],
+  tracks: Track[],
+  durations: Record<string, number>,
+  fill: FillSettings,
+  crossfade: CrossfadeSettings
+): Track[] => orderedBlocks(blocks).flatMap(block => arrangeBlock(block, tracks, durations, fill, crossfade));
@@ -0,0 +1,83 @@
+import { DownmixMode } from '../types';
+import type { StereoChannels } from './audio';
+
+type Speaker = 'L' | 'R' | 'C' | 'LFE' | 'Ls' | 'Rs' | 'Cs' | 'Lb' | 'Rb';
+
+// Speakers by channel count, in the order decoders deliver them (WAVE / SMPTE)
+const LAYOUTS: Record<number, Speaker[]> = {
+  3: ['L', 'R', 'C'],
+  4: ['L', 'R', 'Ls', 'Rs'],
+  5: ['L', 'R', 'C', 'Ls', 'Rs'],
+  6: ['L', 'R', 'C', 'LFE', 'Ls', 'Rs'],
+  7: ['L', 'R', 'C', 'LFE', 'Cs', 'Ls', 'Rs'],
+  8: ['L', 'R', 'C', 'LFE', 'Lb', 'Rb', 'Ls', 'Rs'],
+};
+
+const MINUS_3DB = Math.SQRT1_2;
+
+// ITU-R BS.775: centre and surrounds into the front pair at -3 dB, the LFE left out.
+// A back centre is a surround panned to the middle, so -3 dB twice.
+const ITU_STEREO: Record<Speaker, [number, number]> = {
+  L: [1, 0],
+  R: [0, 1],
+  C: [MINUS_3DB, MINUS_3DB],
+  LFE: [0, 0],
+  Ls: [MINUS_3DB, 0],
+  Rs: [0, MINUS_3DB],
+  Cs: [0.5, 0.5],
+  Lb: [MINUS_3DB, 0],
+  Rb: [0, MINUS_3DB],
+};
+
+export const DOWNMIX_MODES: DownmixMode[] = ['auto', 'center', 'front'];
+
+// Per output channel, the weight of each source channel; null when the mode doesn't apply to the layout
+const stereoMatrix = (layout: Speaker[], mode: DownmixMode): [number[], number[]] | null => {
+  if (mode === 'center') {
+    if (!layout.includes('C')) return null;
+    return [0, 1].map(() => layout.map(speaker => speaker === 'C' ? 1 : 0)) as [number[], number[]];
+  }
+  if (mode === 'front') {
+    return [0, 1].map(side => layout.map(speaker => speaker === 'L' || speaker === 'R' ? ITU_STEREO[speaker][side] : 0)) as [number[], number[]];
+  }
+  return [0, 1].map(side => layout.map(speaker => ITU_STEREO[speaker][side])) as [number[], number[]];
+};
+
+const mix = (sources: Float32Array[], weights: number[], length: number): Float32Array => {
+  const out = new Float32Array(length);
+  sources.forEach((data, c) => {
+    const weight = weights[c];
+    if (weight === 0) return;
+    for (let i = 0; i < length; i++) out[i] += data[i] * weight;
+  });
+  return out;
+};
+
+/**
+ * Folds a decoded buffer down to the two channels the mix works in, as new arrays that can be
+ * processed in place. Mono is duplicated and stereo copied; 3 to 8 channels go through the
+ * ITU matrix, or take only the centre (speech) or only the front pair when the track asks for it.
+ * For a mono export the channels are folded to mono here as BS.775 does: the centre at full level,
+ * the front pair 3 dB down and the surrounds 6 dB down. Both sides carry it.
+ */
+export const downmix = (buffer: AudioBuffer, mode: DownmixMode = 'auto', target: 'stereo' | 'mono' = 'stereo'): StereoChannels => {
+  const count = buffer.numberOfChannels;
+  const sources = Array.from({ length: count }, (_, c) => buffer.getChannelData(c));
+  const layout = LAYOUTS[count];
+  const matrix = layout && (stereoMatrix(layout, mode) ?? stereoMatrix(layout, 'auto'));
+
+  if (!matrix) {
+    // Mono or stereo: the encoder averages the pair for a mono export
+    const left = new Float32Array(sources[0]);
+    return { left, right: count > 1 ? new Float32Array(sources[1]) : new Float32Array(left) };
+  }
+
+  if (target === 'mono') {
+    const centreOnly = mode === 'center' && layout.includes('C');
+    // -3 dB on the sum of the stereo weights: C (-3 dB each side) comes out at 0 dB, L and R at -3 dB, surrounds at -6 dB
+    const weights = matrix[0].map((weight, c) => centreOnly ? weight : MINUS_3DB * (weight + matrix[1][c]));
+    const mono = mix(sources, weights, buffer.length);
+    return { left: mono, right: new Float32Array(mono) };
+  }
+  return { left: mix(sources, matrix[0], buffer.length), right: mix(sources, matrix[1], buffer.length) };
+};
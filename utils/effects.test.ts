@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { timeStretch } from './effects';
+
+const SAMPLE_RATE = 8000;
+
+// A rising ramp: any stretch of it played twice shows up as a step back down
+const ramp = (seconds: number) => {
+  const data = Float32Array.from({ length: seconds * SAMPLE_RATE }, (_, i) => i / (seconds * SAMPLE_RATE));
+  return { left: data, right: new Float32Array(data) };
+};
+
+describe('timeStretch', () => {
+  it.each([0.8, 1.25])('plays the end of the source through once at rate %s', (rate) => {
+    const { left } = timeStretch(ramp(1), SAMPLE_RATE, rate);
+    expect(left.length).toBe(Math.round(SAMPLE_RATE / rate));
+    // The last tenth of a second only rises, and reaches the end of the source
+    const tail = left.subarray(left.length - SAMPLE_RATE / 10);
+    const drops = tail.slice(1).map((value, i) => tail[i] - value);
+    expect(Math.max(...drops)).toBeLessThan(0.01);
+    expect(tail[tail.length - 1]).toBeGreaterThan(0.995);
+  });
+
+  it('resamples clips shorter than one window', () => {
+    const { left } = timeStretch({ left: new Float32Array(100).fill(0.5), right: new Float32Array(100).fill(0.5) }, SAMPLE_RATE, 2);
+    expect(left.length).toBe(50);
+    expect(left.every(value => value === 0.5)).toBe(true);
+  });
+});
@@ -0,0 +1,237 @@
+import { TrackEffects } from '../types';
+import { StereoChannels } from './audio';
+
+export const DEFAULT_EFFECTS: TrackEffects = {
+  gain: 0,
+  fadeIn: 0,
+  fadeOut: 0,
+  tempo: 0,
+  lowShelf: 0,
+  highShelf: 0,
+};
+
+// Corner frequencies of the shelves, where the bass and treble knobs of a mixer sit
+export const LOW_SHELF_HZ = 200;
+export const HIGH_SHELF_HZ = 5000;
+// Percent either way; further than that the time-stretching becomes audible
+export const MAX_TEMPO_CHANGE = 25;
+
+export type EffectKind = 'gain' | 'fade' | 'tempo' | 'eq';
+
+/**
+ * The effects that change anything, for the badges in the queue.
+ */
+export const activeEffects = (effects?: TrackEffects): EffectKind[] => {
+  if (!effects) return [];
+  const active: EffectKind[] = [];
+  if (effects.gain !== 0) active.push('gain');
+  if (effects.fadeIn > 0 || effects.fadeOut > 0) active.push('fade');
+  if (effects.tempo !== 0) active.push('tempo');
+  if (effects.lowShelf !== 0 || effects.highShelf !== 0) active.push('eq');
+  return active;
+};
+
+/**
+ * How much longer (above 1) or shorter the track gets through its tempo change.
+ */
+export const tempoLengthFactor = (effects?: TrackEffects): number => 1 / (1 + (effects?.tempo ?? 0) / 100);
+
+/**
+ * Changes the tempo without changing the pitch (WSOLA): overlapping windows are taken from
+ * the source at the new rate, each shifted a little to where it lines up best with the one before.
+ * `rate` above 1 plays faster. Both channels use the same shifts so the stereo image stays put.
+ */
+export const timeStretch = ({ left, right }: StereoChannels, sampleRate: number, rate: number): StereoChannels => {
+  const frame = 2 * Math.round(0.02 * sampleRate); // 40 ms
+  const hop = frame / 2;
+  const tolerance = Math.round(0.012 * sampleRate);
+  const outLength = Math.round(left.length / rate);
+  const out = { left: new Float32Array(outLength + frame), right: new Float32Array(outLength + frame) };
+  const weights = new Float32Array(outLength + frame);
+  const window = Float32Array.from({ length: frame }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / frame));
+  const last = left.length - frame;
+  if (last < 0) {
+    // Shorter than one window, too short for anything but resampling: the pitch shifts a little
+    const position = (i: number) => Math.min(left.length - 1, i * rate);
+    const interpolate = (data: Float32Array) => Float32Array.from({ length: outLength }, (_, i) => {
+      const at = position(i);
+      const index = Math.floor(at);
+      const next = Math.min(left.length - 1, index + 1);
+      return data[index] + (data[next] - data[index]) * (at - index);
+    });
+    return { left: interpolate(left), right: interpolate(right) };
+  }
+
+  // Similarity of the source at `a` and `b` over half a frame, on the mono sum
+  const similarity = (a: number, b: number, step: number) => {
+    let sum = 0;
+    for (let i = 0; i < hop; i += step) sum += (left[a + i] + right[a + i]) * (left[b + i] + right[b + i]);
+    return sum;
+  };
+
+  let previous = 0;
+  let k = 0;
+  for (; k * hop < outLength; k++) {
+    let position = Math.round(k * hop * rate);
+    // No full window left, the rest of the source is added below
+    if (k > 0 && position > last) break;
+    if (k > 0) {
+      // Where the previous window would naturally have continued
+      const natural = Math.min(last, previous + hop);
+      const from = Math.max(0, position - tolerance);
+      const to = Math.min(last, position + tolerance);
+      // Coarse search first, then refine around the best match
+      let best = position;
+      let bestScore = -Infinity;
+      for (let candidate = from; candidate <= to; candidate += 4) {
+        const score = similarity(candidate, natural, 4);
+        if (score > bestScore) [best, bestScore] = [candidate, score];
+      }
+      const coarse = best;
+      bestScore = similarity(coarse, natural, 2);
+      for (let candidate = Math.max(from, coarse - 3); candidate <= Math.min(to, coarse + 3); candidate++) {
+        const score = similarity(candidate, natural, 2);
+        if (score > bestScore) [best, bestScore] = [candidate, score];
+      }
+      position = best;
+    }
+
+    const at = k * hop;
+    for (let i = 0; i < frame; i++) {
+      out.left[at + i] += left[position + i] * window[i];
+      out.right[at + i] += right[position + i] * window[i];
+      weights[at + i] += window[i];
+    }
+    previous = position;
+  }
+
+  // What is left of the source, from where the last window would have continued, fitted into the
+  // rest of the output and faded in under that window's second half. The end plays through once
+  // instead of the last window repeating; it is too short for the slight change in pitch to be heard.
+  const at = k * hop;
+  const rest = previous + hop;
+  const step = outLength - at > 1 ? (left.length - 1 - rest) / (outLength - at - 1) : 1;
+  for (let i = 0; at + i < outLength; i++) {
+    const position = rest + i * step;
+    const index = Math.floor(position);
+    const next = Math.min(left.length - 1, index + 1);
+    const fraction = position - index;
+    const weight = i < hop ? window[i] : 1;
+    out.left[at + i] += (left[index] + (left[next] - left[index]) * fraction) * weight;
+    out.right[at + i] += (right[index] + (right[next] - right[index]) * fraction) * weight;
+    weights[at + i] += weight;
+  }
+
+  for (let i = 0; i < outLength; i++) {
+    if (weights[i] > 1e-3) {
+      out.left[i] /= weights[i];
+      out.right[i] /= weights[i];
+    }
+  }
+  return { left: out.left.subarray(0, outLength), right: out.right.subarray(0, outLength) };
+};
+
+const stretch = (channels: StereoChannels, sampleRate: number, effects: TrackEffects) =>
+  effects.tempo !== 0 ? timeStretch(channels, sampleRate, 1 + effects.tempo / 100) : channels;
+
+// Fade lengths in samples. Fades longer than the track together are scaled down to fit.
+const fadeSamples = (effects: TrackEffects, length: number, sampleRate: number) => {
+  const fadeIn = Math.max(0, effects.fadeIn) * sampleRate;
+  const fadeOut = Math.max(0, effects.fadeOut) * sampleRate;
+  const scale = fadeIn + fadeOut > length ? length / (fadeIn + fadeOut) : 1;
+  return { fadeIn: Math.floor(fadeIn * scale), fadeOut: Math.floor(fadeOut * scale) };
+};
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Applies the track's effects by rendering it through an OfflineAudioContext: shelf filters,
+ * then a gain node carrying the level and the fades. The tempo change happens before, in JS,
+ * since Web Audio can only change speed together with pitch.
+ */
+export const renderEffects = async (channels: StereoChannels, sampleRate: number, effects: TrackEffects): Promise<StereoChannels> => {
+  const input = stretch(channels, sampleRate, effects);
+  const length = input.left.length;
+  if (length === 0) return input;
+
+  const ctx = new OfflineAudioContext(2, length, sampleRate);
+  const buffer = ctx.createBuffer(2, length, sampleRate);
+  buffer.getChannelData(0).set(input.left);
+  buffer.getChannelData(1).set(input.right);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+
+  const low = ctx.createBiquadFilter();
+  low.type = 'lowshelf';
+  low.frequency.value = LOW_SHELF_HZ;
+  low.gain.value = effects.lowShelf;
+  const high = ctx.createBiquadFilter();
+  high.type = 'highshelf';
+  high.frequency.value = HIGH_SHELF_HZ;
+  high.gain.value = effects.highShelf;
+
+  const gain = ctx.createGain();
+  const level = dbToGain(effects.gain);
+  const { fadeIn, fadeOut } = fadeSamples(effects, length, sampleRate);
+  gain.gain.setValueAtTime(fadeIn > 0 ? 0 : level, 0);
+  if (fadeIn > 0) gain.gain.linearRampToValueAtTime(level, fadeIn / sampleRate);
+  if (fadeOut > 0) {
+    gain.gain.setValueAtTime(level, (length - fadeOut) / sampleRate);
+    gain.gain.linearRampToValueAtTime(0, length / sampleRate);
+  }
+
+  source.connect(low).connect(high).connect(gain).connect(ctx.destination);
+  source.start();
+  const rendered = await ctx.startRendering();
+  return { left: rendered.getChannelData(0), right: rendered.getChannelData(1) };
+};
+
+// Shelving biquad as Web Audio defines it (Audio EQ Cookbook, slope 1), run in place
+const shelf = (data: Float32Array, sampleRate: number, type: 'low' | 'high', frequency: number, gainDb: number) => {
+  const A = Math.pow(10, gainDb / 40);
+  const w0 = 2 * Math.PI * frequency / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / 2 * Math.SQRT2;
+  const root = 2 * Math.sqrt(A) * alpha;
+  const sign = type === 'low' ? 1 : -1;
+  const b0 = A * ((A + 1) - sign * (A - 1) * cos + root);
+  const b1 = sign * 2 * A * ((A - 1) - sign * (A + 1) * cos);
+  const b2 = A * ((A + 1) - sign * (A - 1) * cos - root);
+  const a0 = (A + 1) + sign * (A - 1) * cos + root;
+  const a1 = -sign * 2 * ((A - 1) + sign * (A + 1) * cos);
+  const a2 = (A + 1) + sign * (A - 1) * cos - root;
+
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < data.length; i++) {
+    const x = data[i];
+    const y = (b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2) / a0;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    data[i] = y;
+  }
+};
+
+/**
+ * The same processing as `renderEffects` in plain JS, for where there is no OfflineAudioContext
+ * (the command line).
+ */
+export const applyEffects = (channels: StereoChannels, sampleRate: number, effects: TrackEffects): StereoChannels => {
+  const input = stretch(channels, sampleRate, effects);
+  // Filters work in place, the source may still be in use
+  const output = { left: new Float32Array(input.left), right: new Float32Array(input.right) };
+  const length = output.left.length;
+  const level = dbToGain(effects.gain);
+  const { fadeIn, fadeOut } = fadeSamples(effects, length, sampleRate);
+
+  for (const data of [output.left, output.right]) {
+    if (effects.lowShelf !== 0) shelf(data, sampleRate, 'low', LOW_SHELF_HZ, effects.lowShelf);
+    if (effects.highShelf !== 0) shelf(data, sampleRate, 'high', HIGH_SHELF_HZ, effects.highShelf);
+    for (let i = 0; i < length; i++) {
+      let gain = level;
+      if (i < fadeIn) gain *= i / fadeIn;
+      if (i >= length - fadeOut) gain *= (length - i) / fadeOut;
+      data[i] *= gain;
+    }
+  }
+  return output;
+};
@@ -0,0 +1,105 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { createMp3Encoder } from 'wasm-media-encoders';
+import { ExportSettings } from '../types';
+import { StereoChannels, floatToPCM16 } from './audio';
+import { encodeWavSamples, wavHeader } from './wav';
+import { createXingWriter } from './xing';
+
+export interface ExportEncoder {
+  /** Resolves once the encoder is set up, with the bytes that go before the first block (e.g. a WAV header). */
+  ready: Promise<Uint8Array>;
+  encode: (block: StereoChannels) => Promise<Uint8Array>;
+  flush: () => Promise<Uint8Array>;
+  /** After `flush`, bytes to write over the start of the output (`ready` included) now that all of it is known; empty when nothing changes. */
+  finalHeader: () => Promise<Uint8Array>;
+  terminate: () => void;
+}
+
+export interface BlockEncoder {
+  header: Uint8Array; // Bytes that go before the first block
+  /** Encodes a mixed block. The block may be modified in place. */
+  encode: (block: StereoChannels) => Uint8Array;
+  finish: () => Uint8Array;
+  finalHeader: () => Uint8Array;
+}
+
+// Takes one array per output channel
+interface FormatEncoder extends Omit<BlockEncoder, 'encode'> {
+  encode: (channels: Float32Array[]) => Uint8Array;
+}
+
+const formatEncoder = async (settings: ExportSettings, totalSamples: number): Promise<FormatEncoder> => {
+  const { channels, sampleRate } = settings;
+
+  if (settings.format === 'wav') {
+    const dataBytes = totalSamples * channels * settings.bitDepth / 8;
+    return {
+      header: wavHeader(dataBytes, sampleRate, channels, settings.bitDepth),
+      encode: (data) => encodeWavSamples(data, settings.bitDepth),
+      finish: () => new Uint8Array(0),
+      finalHeader: () => new Uint8Array(0),
+    };
+  }
+
+  if (settings.mp3Mode === 'vbr') {
+    // lamejs only does CBR, the WASM build of LAME handles VBR
+    const encoder = await createMp3Encoder();
+    encoder.configure({ channels, sampleRate, vbrQuality: settings.vbrQuality });
+    // This build writes no Xing frame, without one players get the length and seeking wrong
+    const xing = createXingWriter();
+    return {
+      header: new Uint8Array(0),
+      // Results are views into WASM memory, copy them before the next call overwrites them
+      encode: (data) => xing.add(encoder.encode(data).slice()),
+      finish: () => xing.add(encoder.finalize().slice()),
+      finalHeader: () => xing.frame(),
+    };
+  }
+
+  const encoder = new Mp3Encoder(channels, sampleRate, settings.bitrate);
+  return {
+    header: new Uint8Array(0),
+    encode: (data) => {
+      const { left, right } = floatToPCM16({ left: data[0], right: data[data.length - 1] });
+      // lamejs actually returns an Int8Array, copying into a Uint8Array keeps the bytes and makes it transferable
+      return new Uint8Array(channels === 1 ? encoder.encodeBuffer(left) : encoder.encodeBuffer(left, right));
+    },
+    finish: () => new Uint8Array(encoder.flush()),
+    finalHeader: () => new Uint8Array(0),
+  };
+};
+
+/**
+ * Sets up the encoder for the chosen export format. Runs anywhere, in a worker or in Node.
+ */
+export const createBlockEncoder = async (settings: ExportSettings, totalSamples: number): Promise<BlockEncoder> => {
+  const encoder = await formatEncoder(settings, totalSamples);
+  const mono = settings.channels === 1;
+  return {
+    ...encoder,
+    encode: ({ left, right }) => {
+      if (mono) {
+        for (let i = 0; i < left.length; i++) left[i] = (left[i] + right[i]) / 2;
+      }
+      return encoder.encode(mono ? [left] : [left, right]);
+    },
+  };
+};
+
+/**
+ * Encodes on the calling thread, for where there are no Web Workers (the command line).
+ */
+export const createInlineEncoder = (settings: ExportSettings, totalSamples: number, signal?: AbortSignal): ExportEncoder => {
+  const setup = createBlockEncoder(settings, totalSamples);
+  const run = async (step: (encoder: BlockEncoder) => Uint8Array) => {
+    signal?.throwIfAborted();
+    return step(await setup);
+  };
+  return {
+    ready: run(encoder => encoder.header),
+    encode: (block) => run(encoder => encoder.encode(block)),
+    flush: () => run(encoder => encoder.finish()),
+    finalHeader: () => run(encoder => encoder.finalHeader()),
+    terminate: () => {},
+  };
+};
@@ -0,0 +1,50 @@
+import { ExportSettings } from '../types';
+import { ExportEncoder } from './encoder';
+import type { EncoderRequest, EncoderResponse } from '../workers/encoder.worker';
+
+/**
+ * Starts an encoder for the chosen export format in a Web Worker.
+ * Blocks passed to `encode` are transferred, so they must not be used again afterwards.
+ * Aborting the signal kills the worker and rejects everything still in flight.
+ */
+export const createWorkerEncoder = (settings: ExportSettings, totalSamples: number, signal?: AbortSignal): ExportEncoder => {
+  const worker = new Worker(new URL('../workers/encoder.worker.ts', import.meta.url), { type: 'module' });
+  const pending: { resolve: (data: Uint8Array) => void, reject: (reason: unknown) => void }[] = [];
+
+  const failAll = (reason: unknown) => {
+    worker.terminate();
+    pending.splice(0).forEach(p => p.reject(reason));
+  };
+
+  worker.onmessage = (event: MessageEvent<EncoderResponse>) => {
+    const response = event.data;
+    if (response.type === 'error') {
+      failAll(new Error(response.message));
+    } else {
+      pending.shift()?.resolve(response.data);
+    }
+  };
+  worker.onerror = (event) => failAll(new Error(event.message || 'Encoder worker crashed'));
+
+  const onAbort = () => failAll(signal!.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const send = (request: EncoderRequest, transfer: Transferable[] = []) => {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise<Uint8Array>((resolve, reject) => {
+      pending.push({ resolve, reject });
+      worker.postMessage(request, transfer);
+    });
+  };
+
+  return {
+    ready: send({ type: 'init', settings, totalSamples }),
+    encode: ({ left, right }) => send({ type: 'encode', left, right }, [left.buffer, right.buffer]),
+    flush: () => send({ type: 'flush' }),
+    finalHeader: () => send({ type: 'finalHeader' }),
+    terminate: () => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import { ExportSettings } from '../types';
+
+export const EXPORT_PRESETS = {
+  standard: { format: 'mp3', mp3Mode: 'cbr', bitrate: 128, vbrQuality: 4, channels: 2, sampleRate: 44100, bitDepth: 16 },
+  high: { format: 'mp3', mp3Mode: 'vbr', bitrate: 192, vbrQuality: 2, channels: 2, sampleRate: 44100, bitDepth: 16 },
+  voice: { format: 'mp3', mp3Mode: 'cbr', bitrate: 64, vbrQuality: 6, channels: 1, sampleRate: 22050, bitDepth: 16 },
+  wav16: { format: 'wav', mp3Mode: 'cbr', bitrate: 128, vbrQuality: 4, channels: 2, sampleRate: 44100, bitDepth: 16 },
+  wav24: { format: 'wav', mp3Mode: 'cbr', bitrate: 128, vbrQuality: 4, channels: 2, sampleRate: 48000, bitDepth: 24 },
+} satisfies Record<string, ExportSettings>;
+
+export type ExportPreset = keyof typeof EXPORT_PRESETS;
+
+export const DEFAULT_EXPORT: ExportSettings = EXPORT_PRESETS.standard;
+
+export const MP3_BITRATES = [64, 96, 128, 160, 192, 256, 320];
+export const SAMPLE_RATES = [22050, 32000, 44100, 48000];
+
+/**
+ * The preset these settings match exactly, if any.
+ */
+export const matchPreset = (settings: ExportSettings): ExportPreset | null => {
+  const keys = Object.keys(settings) as (keyof ExportSettings)[];
+  const found = (Object.keys(EXPORT_PRESETS) as ExportPreset[])
+    .find(name => keys.every(key => EXPORT_PRESETS[name][key] === settings[key]));
+  return found ?? null;
+};
+
+export const exportFileType = (settings: ExportSettings): { extension: string, mimeType: string } =>
+  settings.format === 'wav'
+    ? { extension: 'wav', mimeType: 'audio/wav' }
+    : { extension: 'mp3', mimeType: 'audio/mpeg' };
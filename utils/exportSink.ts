@@ -0,0 +1,114 @@
+declare global {
+  interface Window {
+    // File System Access API, Chromium only and not in the TS DOM lib yet
+    showSaveFilePicker?: (options?: {
+      suggestedName?: string,
+      types?: { description?: string, accept: Record<string, string[]> }[],
+    }) => Promise<FileSystemFileHandle>;
+  }
+}
+
+export type ExportTarget = 'download' | 'file';
+
+export interface ExportSink {
+  kind: 'memory' | 'opfs' | 'disk';
+  name: string; // File name the export ends up under
+  write: (chunk: Uint8Array) => Promise<void>;
+  /** Overwrites bytes written before, e.g. a header only complete at the end. Comes after the last `write`. */
+  writeAt: (position: number, chunk: Uint8Array) => Promise<void>;
+  /** Finishes the export. Resolves to a Blob to offer as a download, or null when it is already saved to disk. */
+  close: () => Promise<Blob | null>;
+  abort: () => Promise<void>;
+}
+
+// Several files of one export are spooled side by side, each in its own slot
+const opfsExportName = (slot: number) => slot > 0 ? `storecast-export-${slot}.tmp` : 'storecast-export.tmp';
+
+export const canSaveToFile = (): boolean => typeof window.showSaveFilePicker === 'function';
+
+/**
+ * Hands a Blob to the browser's download manager.
+ */
+export const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const canUseOpfs = (): boolean =>
+  typeof navigator.storage?.getDirectory === 'function' && 'createWritable' in FileSystemFileHandle.prototype;
+
+const writableSink = (kind: 'opfs' | 'disk', name: string, writable: FileSystemWritableFileStream, finish: () => Promise<Blob | null>, cleanup: () => Promise<void>): ExportSink => ({
+  kind,
+  name,
+  write: (chunk) => writable.write(chunk),
+  writeAt: (position, chunk) => writable.write({ type: 'write', position, data: chunk }),
+  close: async () => {
+    await writable.close();
+    return finish();
+  },
+  abort: async () => {
+    await writable.abort().catch(() => {});
+    await cleanup().catch(() => {});
+  },
+});
+
+/**
+ * Opens where the encoded chunks go.
+ *
+ * `file` asks for a destination up front and streams straight into it, so it must be called
+ * while the click that started the export still counts as a user gesture.
+ * `download` spools to a temp file in the origin private file system when the browser has one,
+ * and only falls back to collecting chunks in memory when it doesn't. Files that are still needed
+ * at the same time, like the blocks of a batch export, each need a different `slot`.
+ */
+export const createExportSink = async (target: ExportTarget, fileName: string, mimeType: string, slot = 0): Promise<ExportSink> => {
+  if (target === 'file' && canSaveToFile()) {
+    const extension = fileName.slice(fileName.lastIndexOf('.'));
+    const handle = await window.showSaveFilePicker!({
+      suggestedName: fileName,
+      types: [{ accept: { [mimeType]: [extension] } }],
+    });
+    const writable = await handle.createWritable();
+    return writableSink('disk', handle.name, writable, async () => null, async () => {});
+  }
+
+  if (canUseOpfs()) {
+    try {
+      const root = await navigator.storage.getDirectory();
+      const handle = await root.getFileHandle(opfsExportName(slot), { create: true });
+      const writable = await handle.createWritable();
+      return writableSink(
+        'opfs',
+        fileName,
+        writable,
+        // The File returned here is backed by disk, not by memory
+        async () => handle.getFile(),
+        () => root.removeEntry(opfsExportName(slot))
+      );
+    } catch (e) {
+      console.warn('OPFS unavailable, keeping the export in memory', e);
+    }
+  }
+
+  const chunks: Uint8Array[] = [];
+  return {
+    kind: 'memory',
+    name: fileName,
+    write: async (chunk) => { chunks.push(chunk); },
+    writeAt: async (position, chunk) => {
+      let offset = 0;
+      for (const stored of chunks) {
+        const from = Math.max(position, offset);
+        const to = Math.min(position + chunk.length, offset + stored.length);
+        if (from < to) stored.set(chunk.subarray(from - position, to - position), from - offset);
+        offset += stored.length;
+      }
+    },
+    close: async () => new Blob(chunks, { type: mimeType }),
+    abort: async () => { chunks.length = 0; },
+  };
+};
@@ -0,0 +1,89 @@
+import { CrossfadeSettings, FillSettings, Track } from '../types';
+import { isRecurring } from './schedule';
+import { isOverlay } from './timeline';
+
+export const DEFAULT_FILL: FillSettings = {
+  enabled: false,
+  targetMinutes: 240,
+  order: 'shuffle',
+  minSpacing: 5,
+  voiceoverEvery: 30,
+  seed: 1,
+};
+
+export const newFillSeed = () => Math.floor(Math.random() * 0x7fffffff) + 1;
+
+// mulberry32: small, fast and the same on every machine for the same seed
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Builds a queue of the target length out of the current library.
+ *
+ * Songs repeat in queue order (`cycle`) or in a seeded random order (`shuffle`) where a song
+ * only comes back after `minSpacing` others. The voiceovers that lead the queue open the
+ * broadcast, and every voiceover in the queue takes turns coming back every `voiceoverEvery`
+ * minutes at the next song boundary. Recurring announcements are passed through for
+ * `expandSchedule`, which places them by their own rules. The last song is always played to
+ * its end, so the result runs slightly over the target rather than under it.
+ */
+export const fillToDuration = (
+  tracks: Track[],
+  durations: Record<string, number>,
+  settings: FillSettings,
+  crossfade: CrossfadeSettings
+): Track[] => {
+  const songs = tracks.filter(t => t.type === 'music' && (durations[t.id] ?? 0) > 0);
+  if (songs.length === 0) return tracks;
+
+  const recurring = tracks.filter(isRecurring);
+  const voiceovers = tracks.filter(t => t.type === 'voiceover' && !isRecurring(t));
+  const firstSong = tracks.indexOf(songs[0]);
+  const opening = tracks.slice(0, firstSong).filter(t => voiceovers.includes(t));
+
+  const target = settings.targetMinutes * 60;
+  // Overlapping crossfades shorten the mix, so they count against the target
+  const overlap = crossfade.music.overlap ? crossfade.music.duration : 0;
+  const spacing = Math.min(Math.max(0, Math.round(settings.minSpacing)), songs.length - 1);
+  const random = seededRandom(settings.seed);
+
+  const sequence: Track[] = [];
+  const recent: Track[] = []; // Last `spacing` songs, which can't be picked next
+  let elapsed = 0;
+  let nextVoiceover = settings.voiceoverEvery * 60;
+  let rotation = 0;
+  let cycle = 0;
+
+  const play = (track: Track) => {
+    sequence.push(track);
+    if (!isOverlay(track)) elapsed += durations[track.id] ?? 0;
+  };
+
+  opening.forEach(play);
+
+  while (elapsed < target) {
+    let song: Track;
+    if (settings.order === 'cycle') {
+      song = songs[cycle++ % songs.length];
+    } else {
+      const candidates = songs.filter(s => !recent.includes(s));
+      song = candidates[Math.floor(random() * candidates.length)];
+      recent.push(song);
+      if (recent.length > spacing) recent.shift();
+    }
+    // buildTimeline caps a fade at half the track, so every song still moves the mix forward
+    if (sequence.some(t => t.type === 'music')) elapsed -= Math.min(overlap, durations[song.id] / 2);
+    play(song);
+
+    if (settings.voiceoverEvery > 0 && voiceovers.length > 0 && elapsed >= nextVoiceover && elapsed < target) {
+      play(voiceovers[rotation++ % voiceovers.length]);
+      while (nextVoiceover <= elapsed) nextVoiceover += settings.voiceoverEvery * 60;
+    }
+  }
+
+  return [...sequence, ...recurring];
+};
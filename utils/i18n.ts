@@ -11,8 +11,25 @@ export const translations = {
     apiKeyLabel: "Google API Key (Optional)",
     apiKeyPlaceholder: "Only for AI features (Auto-Sort/Intro)",
     apiKeyHelp: "Leave empty if you only need to merge audio files.",
+    aiProvider: "AI Provider",
+    aiProviders: {
+      gemini: "Google Gemini",
+      http: "Local HTTP server",
+      mock: "Offline demo (no key needed)"
+    },
+    aiEndpoint: "Server URL",
+    textModel: "Text Model",
+    ttsModel: "Speech Model",
+    mockProviderHelp: "Canned scripts and tone placeholders instead of speech, for trying the AI features without a key or network.",
+    aiErrors: {
+      invalid_key: "The API key was rejected",
+      quota: "Rate limit or quota reached, try again later",
+      network: "The AI service couldn't be reached",
+      bad_response: "The AI service sent an unexpected response"
+    },
     genIntro: "Generate AI Intro (Requires Key)",
-    smartSort: "Smart Sort (Requires Key)",
+    smartSort: "Smart Sort (AI)",
+    smartSortLocal: "Smart Sort (Local Analysis)",
     dragDrop: "Click or Drag files here",
     supports: "Supports MP3, WAV, OGG, MP4",
     queue: "Queue",
@@ -20,7 +37,7 @@ export const translations = {
     noTracks: "No tracks added yet.",
     aiGenerated: "AI Generated",
     localFile: "Local File",
-    download: "Download Broadcast (MP3)",
+    download: (format: string) => `Download Broadcast (${format})`,
     reset: "Reset",
     mergeExport: "Merge & Export Audio",
     processingLocally: "Note: Audio processing happens 100% locally in your browser. No upload required.",
@@ -30,7 +47,7 @@ export const translations = {
     statusGenTTS: "AI Host is writing a script...",
     statusDecoding: "Decoding audio streams...",
     statusMerging: "Encoding to MP3...",
-    statusEncoding: "Finalizing MP3 file...",
+    statusEncoding: "Finalizing file...",
     statusReady: "Ready to download!",
     statusError: "Merge failed. Files might be corrupt or too large.",
     statusSortError: "Failed to sort: ",
@@ -39,6 +56,265 @@ export const translations = {
     aiIntroName: (store: string) => `AI Intro (${store})`,
     apiKeyMissing: "Please enter your Google API Key in the settings first.",
 
+    crossfadeDuration: "Crossfade (s)",
+    fadeCurve: "Fade Curve",
+    fadeCurves: {
+      linear: "Linear",
+      equalPower: "Equal Power"
+    },
+    voiceoverFade: "Voiceover Fade-in (s)",
+    voiceoverFadeHelp: "Voiceovers never overlap the music around them.",
+    hardCut: "Hard cut",
+    transitionLabel: (seconds: number, curve: string, overlap: boolean) => `${overlap ? 'Crossfade' : 'Fade'} ${seconds}s · ${curve}`,
+    useDefault: "Use default",
+
+    normalizeLoudness: "Normalize loudness",
+    targetLoudness: "Target (LUFS)",
+    analyzeLoudness: "Analyze",
+    analyzingTrack: (current: number, total: number, name: string) => `Analyzing track ${current}/${total}: ${name}`,
+    loudnessSummary: (lufs: number, peak: number, gain: number) => `${lufs.toFixed(1)} LUFS · ${peak.toFixed(1)} dBTP · ${gain >= 0 ? '+' : ''}${gain.toFixed(1)} dB`,
+
+    masterLimiter: "Master limiter",
+    limiterCeiling: "Ceiling (dBTP)",
+    limiterRelease: "Release (ms)",
+    ditherOutput: "Dither 16-bit output",
+    masterHelp: "Turns peaks of the finished mix down smoothly instead of letting them clip. Dither only applies to 16-bit WAV and CBR MP3.",
+    masterSummary: (limited: number, maxReduction: number, clipped: number) =>
+      `Limiter: ${limited > 0 ? `${limited.toFixed(1)}s turned down (up to ${maxReduction.toFixed(1)} dB)` : 'nothing to limit'} · ${clipped === 0 ? 'no clipping' : `${clipped} samples clipped`}`,
+
+    trimSilence: "Trim leading/trailing silence",
+    silenceThreshold: "Threshold (dBFS)",
+    silenceMinLength: "Min Length (s)",
+    silenceSummary: (start: number, end: number) => `Trimmed ${start.toFixed(1)}s / ${end.toFixed(1)}s`,
+    keepSilenceOn: "Silence is kept for this track (click to trim)",
+    keepSilenceOff: "Silence is trimmed for this track (click to keep)",
+
+    ducking: "Music Ducking",
+    duckAmount: "Depth (dB)",
+    duckAttack: "Attack (s)",
+    duckRelease: "Release (s)",
+    duckLeadIn: "Lead-in (s)",
+    duckingHelp: "Applies to voiceovers set to play over the music.",
+    overMusic: "Over music",
+    overlayOn: "Plays over the next track (click to play on its own)",
+    overlayOff: "Plays on its own (click to play over the next track)",
+    mixingProgress: (position: string, total: string) => `Mixing & encoding ${position} / ${total}`,
+
+    repeatAnnouncement: "Repeat during the broadcast",
+    repeatEvery: "Repeat every",
+    recurrenceModes: {
+      minutes: "minutes",
+      songs: "songs"
+    },
+    recurrenceSummary: (mode: 'minutes' | 'songs', every: number) => mode === 'minutes' ? `Every ${every} min` : `Every ${every} songs`,
+    playOnce: "Play once",
+    timelinePreview: "Timeline Preview",
+    totalLength: (time: string) => `Total ${time}`,
+    preview: "Preview",
+    previewLoading: "Loading waveform...",
+    previewError: "Could not load this track",
+    inPoint: "In point (drag)",
+    outPoint: "Out point (drag)",
+    trimSummary: (start: string, end: string, kept: string) => `${start} – ${end} (${kept})`,
+    trimPoints: (start: string, end: string) => `Cut to ${start}–${end}`,
+    resetTrim: "Reset in/out",
+    previewTransition: "Preview this transition (last 10 s into the next track)",
+    stopPreview: "Stop preview",
+
+    bpm: (tempo: number) => `${tempo} BPM`,
+
+    trackEffects: "Gain, fades, tempo and EQ",
+    effectGain: "Gain (dB)",
+    effectFadeIn: "Fade in (s)",
+    effectFadeOut: "Fade out (s)",
+    effectTempo: "Tempo (%)",
+    effectLowShelf: "Bass (dB)",
+    effectHighShelf: "Treble (dB)",
+    effectsHelp: "Tempo changes keep the pitch, e.g. +5% for a gym. Gain is added after loudness normalization.",
+    resetEffects: "Reset effects",
+    effectSummaries: {
+      gain: (db: number) => `${db > 0 ? '+' : ''}${db} dB`,
+      fade: (fadeIn: number, fadeOut: number) => `Fade ${fadeIn}s/${fadeOut}s`,
+      tempo: (percent: number) => `Tempo ${percent > 0 ? '+' : ''}${percent}%`,
+      eq: (low: number, high: number) => `EQ ${low > 0 ? '+' : ''}${low}/${high > 0 ? '+' : ''}${high} dB`,
+    },
+    downmix: "Surround",
+    downmixModes: {
+      auto: "Standard downmix",
+      center: "Center only",
+      front: "Front L/R only",
+    },
+    downmixHelp: "For 5.1/7.1 sources such as videos. Center only keeps just the dialog channel.",
+
+    introStudio: "Voiceover Studio",
+    introScript: "Script",
+    scriptPlaceholder: "Type the announcement, or let AI write one and edit it here.",
+    maxWords: "Maximum length of an AI-written script",
+    words: "words",
+    writeScript: "Write with AI",
+    voice: "Voice",
+    speakingStyle: "Style",
+    speakingStyles: {
+      neutral: "Neutral",
+      warm: "Warm",
+      cheerful: "Cheerful",
+      calm: "Calm",
+      energetic: "Energetic",
+      elegant: "Elegant"
+    },
+    takes: "Takes",
+    synthesizeTakes: (count: number) => count === 1 ? "Record 1 take" : `Record ${count} takes`,
+    takeLabel: (n: number) => `Take ${n}`,
+    useTake: "Use",
+    editScript: "Edit script and record again",
+
+    announcements: "Announcements",
+    template: "Template",
+    templateLanguage: "Language",
+    languages: {
+      en: "English",
+      zh: "中文"
+    },
+    placeholders: {
+      discount: "Discount",
+      product: "Product",
+      childName: "Child's Name",
+      description: "Clothing / Description",
+      closingTime: "Closing Time",
+      holiday: "Holiday"
+    } as Record<string, string>,
+    missingValues: (names: string) => `Still to fill in: ${names}`,
+    recordAnnouncement: "Record Announcement",
+    newTemplate: "New Template",
+    editTemplate: "Edit Template",
+    deleteTemplate: "Delete Template",
+    confirmDeleteTemplate: (name: string) => `Delete the template "${name}"?`,
+    templateName: "Template Name",
+    templateText: (language: string) => `Text (${language})`,
+    templateHelp: "Write {storeName}, {closingTime}, {discount} or any {name} where a value goes. Each placeholder gets its own field.",
+    saveTemplate: "Save Template",
+
+    dayParts: "Day Parts",
+    useDayParts: "Program the day in blocks",
+    dayPartOutput: "Batch Export",
+    dayPartOutputs: {
+      perBlock: "One file per block",
+      continuous: "One continuous file"
+    },
+    morning: "Morning",
+    afternoon: "Afternoon",
+    evening: "Evening",
+    blockName: (n: number) => `Block ${n}`,
+    removeBlock: "Remove block",
+    blockStart: "Start",
+    blockEnd: "End",
+    blockLength: "Length",
+    blockAllSongs: (count: number) => `All ${count} songs (pick some to narrow it down)`,
+    blockSongs: (count: number) => `${count} songs`,
+    blockAnnouncements: (count: number) => `${count} announcements`,
+    noBlockIntro: "No intro yet",
+    blockIntro: "Intro",
+    blockIntroName: (block: string) => `Intro (${block})`,
+    addBlock: "Add Block",
+    writeMissingIntros: "Write missing intros",
+    writingBlockIntro: (current: number, total: number, block: string) => `Writing intro ${current}/${total}: ${block}`,
+    dayPartsHelp: "The queue becomes the library the blocks pick from. Each block fills its time range using the fill rules below, opens with its intro and orders its songs for its vibe when they've been analyzed.",
+
+    liveMode: "Live Player",
+    liveHelp: "Plays the queue on this computer instead of exporting it. Keep the tab open; it keeps playing in the background and recovers after sleep.",
+    liveLoop: "Loop the queue",
+    liveShuffle: "Shuffle songs on every pass",
+    liveStart: "Play Live",
+    liveStop: "Stop",
+    liveSkip: "Skip",
+    liveSuspended: "The browser paused the audio. Click to resume.",
+    nowPlaying: "Now playing",
+    upNext: "Up next",
+    liveAnnouncement: "Announcing",
+    clockAnnouncements: "Announcements at set times",
+    clockTimesPlaceholder: "e.g. 12:00, 21:45",
+    clockAnnouncementsHelp: "Voiceovers with times play at those times over the music, which ducks, and leave the queue while live.",
+    playHistory: "History",
+    noHistory: "Nothing played yet",
+    exportHistory: "Export CSV",
+    historyKept: (days: number) => `Plays of the last ${days} days are kept in this browser. Export the CSV to keep them longer.`,
+    clearHistory: "Clear",
+    atSetTime: "on time",
+    liveLoadError: (name: string) => `Could not play ${name}, skipped`,
+
+    fillToDuration: "Fill to a target length",
+    fillTarget: "Length (hours)",
+    fillOrder: "Song Order",
+    fillOrders: {
+      shuffle: "Shuffle",
+      cycle: "Cycle in queue order"
+    },
+    fillSpacing: "Songs Before a Repeat",
+    fillVoiceoverEvery: "Voiceovers Every (min)",
+    fillPlanned: (total: string, songs: number) => `Planned: ${total} · ${songs} songs`,
+    reshuffle: "Reshuffle",
+    fillHelp: "Repeats the library until the broadcast is long enough. Voiceovers at the top of the queue open it, and all voiceovers take turns coming back at the set interval (0 = only at the start).",
+    durationsUnknown: "Some durations are unknown, times are estimates.",
+    analyzeDurations: "Analyze tracks",
+    cancel: "Cancel",
+    exportTarget: "Save to",
+    exportTargets: {
+      download: "Download when finished",
+      file: "Write directly to a file"
+    },
+    savedToFile: (name: string) => `Saved to ${name}`,
+    tracklistDownloads: "Tracklist:",
+
+    exportPreset: "Export Preset",
+    exportPresets: {
+      standard: "Standard MP3 (128 kbps)",
+      high: "High quality MP3 (VBR)",
+      voice: "Voice only (mono, 64 kbps)",
+      wav16: "Lossless WAV (16-bit)",
+      wav24: "Lossless WAV (24-bit)"
+    },
+    customPreset: "Custom",
+    exportFormat: "Format",
+    wavLossless: "WAV (lossless)",
+    mp3Mode: "Bitrate Mode",
+    mp3Modes: {
+      cbr: "Constant (CBR)",
+      vbr: "Variable (VBR)"
+    },
+    bitrate: "Bitrate",
+    vbrQuality: "VBR Quality (0 = best)",
+    bitDepth: "Bit Depth",
+    channels: "Channels",
+    stereo: "Stereo",
+    mono: "Mono",
+    sampleRate: "Sample Rate",
+    splitExport: "Split Into Parts",
+    splitModes: {
+      off: "Don't split",
+      minutes: "By length",
+      megabytes: "By file size"
+    },
+    maxPartMinutes: "Max Minutes per Part",
+    maxPartMegabytes: "Max MB per Part",
+    splitHelp: "Parts are cut between tracks and each is a complete file, so crossfades across a cut are left out. File sizes are estimated before encoding and kept on the safe side.",
+    partLabel: (part: number, total: number) => `Part ${part}/${total}`,
+    splitLimitInvalid: (min: number) => `The part limit must be at least ${min}.`,
+    wavTooLarge: (file: string) => `${file} would be over 4 GB, more than a WAV file can hold. Split the export into parts or use MP3.`,
+
+    projects: "Saved Projects",
+    projectName: "Project Name",
+    saveProject: "Save",
+    noProjects: "No saved projects yet.",
+    projectSummary: (count: number, date: string) => `${count} tracks · ${date}`,
+    openProject: "Open",
+    duplicateProject: "Duplicate",
+    deleteProject: "Delete",
+    confirmDeleteProject: (name: string) => `Delete the project "${name}"? This can't be undone.`,
+    projectCopyName: (name: string) => `${name} (copy)`,
+    exportProjectFile: "Export File",
+    importProjectFile: "Import File",
+    projectError: "Project error: ",
+
     vibes: {
       [VibeType.ENERGETIC]: 'Energetic & Upbeat',
       [VibeType.RELAXED]: 'Relaxed & Chill',
@@ -57,8 +333,25 @@ export const translations = {
     apiKeyLabel: "Google API Key (选填)",
     apiKeyPlaceholder: "仅用于 AI 排序和语音生成",
     apiKeyHelp: "如果您只需要合并音频，请留空。",
+    aiProvider: "AI 服务",
+    aiProviders: {
+      gemini: "Google Gemini",
+      http: "本地 HTTP 服务",
+      mock: "离线演示 (无需密钥)"
+    },
+    aiEndpoint: "服务地址",
+    textModel: "文本模型",
+    ttsModel: "语音模型",
+    mockProviderHelp: "使用预设文案和提示音代替语音，无需密钥或网络即可试用 AI 功能。",
+    aiErrors: {
+      invalid_key: "API 密钥无效",
+      quota: "已达到调用频率或配额上限，请稍后再试",
+      network: "无法连接 AI 服务",
+      bad_response: "AI 服务返回了无法识别的结果"
+    },
     genIntro: "生成 AI 开场白 (需 Key)",
-    smartSort: "智能排序 (需 Key)",
+    smartSort: "智能排序 (AI)",
+    smartSortLocal: "智能排序 (本地分析)",
     dragDrop: "点击或拖拽文件至此",
     supports: "支持 MP3, WAV, OGG, MP4",
     queue: "播放队列",
@@ -66,7 +359,7 @@ export const translations = {
     noTracks: "暂无曲目",
     aiGenerated: "AI 生成",
     localFile: "本地文件",
-    download: "下载广播文件 (MP3)",
+    download: (format: string) => `下载广播文件 (${format})`,
     reset: "重置",
     mergeExport: "合并并导出音频",
     processingLocally: "注意：音频处理 100% 在您的浏览器本地进行，无需上传，无需网络。",
@@ -75,7 +368,7 @@ export const translations = {
     statusGenTTS: "AI 主持人正在撰写脚本...",
     statusDecoding: "正在解码音频流...",
     statusMerging: "正在编码为 MP3...",
-    statusEncoding: "正在生成最终 MP3 文件...",
+    statusEncoding: "正在生成最终文件...",
     statusReady: "准备下载！",
     statusError: "合并失败。文件可能损坏或过大。",
     statusSortError: "排序失败：",
@@ -84,6 +377,265 @@ export const translations = {
     aiIntroName: (store: string) => `AI 开场白 (${store})`,
     apiKeyMissing: "请先在设置中输入您的 Google API Key。",
 
+    crossfadeDuration: "交叉淡化 (秒)",
+    fadeCurve: "淡化曲线",
+    fadeCurves: {
+      linear: "线性",
+      equalPower: "等功率"
+    },
+    voiceoverFade: "语音淡入 (秒)",
+    voiceoverFadeHelp: "语音不会与前后音乐重叠。",
+    hardCut: "直接切换",
+    transitionLabel: (seconds: number, curve: string, overlap: boolean) => `${overlap ? '交叉淡化' : '淡入淡出'} ${seconds}秒 · ${curve}`,
+    useDefault: "恢复默认",
+
+    normalizeLoudness: "响度标准化",
+    targetLoudness: "目标响度 (LUFS)",
+    analyzeLoudness: "分析",
+    analyzingTrack: (current: number, total: number, name: string) => `正在分析曲目 ${current}/${total}: ${name}`,
+    loudnessSummary: (lufs: number, peak: number, gain: number) => `${lufs.toFixed(1)} LUFS · ${peak.toFixed(1)} dBTP · ${gain >= 0 ? '+' : ''}${gain.toFixed(1)} dB`,
+
+    masterLimiter: "总线限幅器",
+    limiterCeiling: "上限 (dBTP)",
+    limiterRelease: "释放 (毫秒)",
+    ditherOutput: "16 位输出加抖动",
+    masterHelp: "平滑压低成品混音中的峰值，避免削波失真。抖动仅用于 16 位 WAV 和 CBR MP3。",
+    masterSummary: (limited: number, maxReduction: number, clipped: number) =>
+      `限幅器：${limited > 0 ? `压低 ${limited.toFixed(1)} 秒 (最多 ${maxReduction.toFixed(1)} dB)` : '无需限幅'} · ${clipped === 0 ? '无削波' : `${clipped} 个采样削波`}`,
+
+    trimSilence: "去除首尾静音",
+    silenceThreshold: "阈值 (dBFS)",
+    silenceMinLength: "最短时长 (秒)",
+    silenceSummary: (start: number, end: number) => `已裁剪 ${start.toFixed(1)}秒 / ${end.toFixed(1)}秒`,
+    keepSilenceOn: "此曲目保留静音 (点击以裁剪)",
+    keepSilenceOff: "此曲目裁剪静音 (点击以保留)",
+
+    ducking: "音乐闪避",
+    duckAmount: "深度 (dB)",
+    duckAttack: "起始 (秒)",
+    duckRelease: "恢复 (秒)",
+    duckLeadIn: "前奏 (秒)",
+    duckingHelp: "适用于设置为叠加在音乐上的语音。",
+    overMusic: "叠加在音乐上",
+    overlayOn: "叠加在下一首曲目上播放 (点击改为单独播放)",
+    overlayOff: "单独播放 (点击改为叠加在下一首曲目上)",
+    mixingProgress: (position: string, total: string) => `正在混音并编码 ${position} / ${total}`,
+
+    repeatAnnouncement: "在广播中重复播放",
+    repeatEvery: "重复间隔",
+    recurrenceModes: {
+      minutes: "分钟",
+      songs: "首歌"
+    },
+    recurrenceSummary: (mode: 'minutes' | 'songs', every: number) => mode === 'minutes' ? `每 ${every} 分钟` : `每 ${every} 首歌`,
+    playOnce: "仅播放一次",
+    timelinePreview: "时间线预览",
+    totalLength: (time: string) => `总时长 ${time}`,
+    preview: "试听",
+    previewLoading: "正在加载波形...",
+    previewError: "无法加载此曲目",
+    inPoint: "入点 (拖动)",
+    outPoint: "出点 (拖动)",
+    trimSummary: (start: string, end: string, kept: string) => `${start} – ${end} (${kept})`,
+    trimPoints: (start: string, end: string) => `截取 ${start}–${end}`,
+    resetTrim: "重置入点/出点",
+    previewTransition: "试听此过渡 (上一曲最后 10 秒接入本曲)",
+    stopPreview: "停止试听",
+
+    bpm: (tempo: number) => `${tempo} BPM`,
+
+    trackEffects: "增益、淡入淡出、速度和均衡",
+    effectGain: "增益 (dB)",
+    effectFadeIn: "淡入 (秒)",
+    effectFadeOut: "淡出 (秒)",
+    effectTempo: "速度 (%)",
+    effectLowShelf: "低音 (dB)",
+    effectHighShelf: "高音 (dB)",
+    effectsHelp: "变速不变调，例如健身房可加快 5%。增益在响度标准化之后叠加。",
+    resetEffects: "重置效果",
+    effectSummaries: {
+      gain: (db: number) => `${db > 0 ? '+' : ''}${db} dB`,
+      fade: (fadeIn: number, fadeOut: number) => `淡入 ${fadeIn}秒/淡出 ${fadeOut}秒`,
+      tempo: (percent: number) => `速度 ${percent > 0 ? '+' : ''}${percent}%`,
+      eq: (low: number, high: number) => `均衡 ${low > 0 ? '+' : ''}${low}/${high > 0 ? '+' : ''}${high} dB`,
+    },
+    downmix: "环绕声",
+    downmixModes: {
+      auto: "标准缩混",
+      center: "仅中置声道",
+      front: "仅前置左右",
+    },
+    downmixHelp: "用于视频等 5.1/7.1 音源。仅中置声道只保留对白。",
+
+    introStudio: "语音工作室",
+    introScript: "文案",
+    scriptPlaceholder: "输入播报内容，或让 AI 撰写后在此修改。",
+    maxWords: "AI 撰写文案的最大字数",
+    words: "字",
+    writeScript: "AI 撰写",
+    voice: "音色",
+    speakingStyle: "风格",
+    speakingStyles: {
+      neutral: "平稳",
+      warm: "温暖",
+      cheerful: "欢快",
+      calm: "沉静",
+      energetic: "激昂",
+      elegant: "优雅"
+    },
+    takes: "版本数",
+    synthesizeTakes: (count: number) => `录制 ${count} 个版本`,
+    takeLabel: (n: number) => `版本 ${n}`,
+    useTake: "使用",
+    editScript: "编辑文案并重新录制",
+
+    announcements: "广播模板",
+    template: "模板",
+    templateLanguage: "语言",
+    languages: {
+      en: "English",
+      zh: "中文"
+    },
+    placeholders: {
+      discount: "折扣",
+      product: "商品",
+      childName: "儿童姓名",
+      description: "衣着 / 特征",
+      closingTime: "打烊时间",
+      holiday: "节日"
+    } as Record<string, string>,
+    missingValues: (names: string) => `尚未填写：${names}`,
+    recordAnnouncement: "录制广播",
+    newTemplate: "新建模板",
+    editTemplate: "编辑模板",
+    deleteTemplate: "删除模板",
+    confirmDeleteTemplate: (name: string) => `确定删除模板“${name}”吗？`,
+    templateName: "模板名称",
+    templateText: (language: string) => `文案 (${language})`,
+    templateHelp: "在需要填入内容的地方写 {storeName}、{closingTime}、{discount} 或任意 {名称}，每个占位符都会有自己的输入框。",
+    saveTemplate: "保存模板",
+
+    dayParts: "时段编排",
+    useDayParts: "按时段编排一天的节目",
+    dayPartOutput: "批量导出",
+    dayPartOutputs: {
+      perBlock: "每个时段一个文件",
+      continuous: "合并为一个连续文件"
+    },
+    morning: "上午",
+    afternoon: "下午",
+    evening: "晚上",
+    blockName: (n: number) => `时段 ${n}`,
+    removeBlock: "删除时段",
+    blockStart: "开始",
+    blockEnd: "结束",
+    blockLength: "时长",
+    blockAllSongs: (count: number) => `全部 ${count} 首歌曲 (勾选以缩小范围)`,
+    blockSongs: (count: number) => `${count} 首歌曲`,
+    blockAnnouncements: (count: number) => `${count} 条广播`,
+    noBlockIntro: "暂无开场白",
+    blockIntro: "开场白",
+    blockIntroName: (block: string) => `开场白 (${block})`,
+    addBlock: "添加时段",
+    writeMissingIntros: "生成缺少的开场白",
+    writingBlockIntro: (current: number, total: number, block: string) => `正在生成开场白 ${current}/${total}：${block}`,
+    dayPartsHelp: "队列将作为各时段选曲的曲库。每个时段按下方的填充规则填满其时间范围，以自己的开场白开始，并在歌曲分析过后按氛围排序。",
+
+    liveMode: "现场播放",
+    liveHelp: "在这台电脑上直接播放队列，无需导出。请保持标签页打开；它可在后台持续播放，并在休眠后自动恢复。",
+    liveLoop: "循环播放队列",
+    liveShuffle: "每轮随机打乱歌曲",
+    liveStart: "开始现场播放",
+    liveStop: "停止",
+    liveSkip: "跳过",
+    liveSuspended: "浏览器暂停了音频，点击恢复。",
+    nowPlaying: "正在播放",
+    upNext: "下一首",
+    liveAnnouncement: "正在广播",
+    clockAnnouncements: "定时广播",
+    clockTimesPlaceholder: "例如 12:00, 21:45",
+    clockAnnouncementsHelp: "设置了时间的配音会在该时间压低音乐播放，现场播放时不再出现在队列中。",
+    playHistory: "播放记录",
+    noHistory: "尚未播放任何内容",
+    exportHistory: "导出 CSV",
+    historyKept: (days: number) => `此浏览器保留最近 ${days} 天的播放记录，如需更久请导出 CSV。`,
+    clearHistory: "清空",
+    atSetTime: "定时",
+    liveLoadError: (name: string) => `无法播放 ${name}，已跳过`,
+
+    fillToDuration: "填充到目标时长",
+    fillTarget: "时长 (小时)",
+    fillOrder: "歌曲顺序",
+    fillOrders: {
+      shuffle: "随机",
+      cycle: "按队列顺序循环"
+    },
+    fillSpacing: "重复前间隔歌曲数",
+    fillVoiceoverEvery: "语音间隔 (分钟)",
+    fillPlanned: (total: string, songs: number) => `预计: ${total} · ${songs} 首歌`,
+    reshuffle: "重新随机",
+    fillHelp: "重复曲库直到广播达到目标时长。队列开头的语音用于开场，所有语音按设定间隔轮流重新插入 (0 = 仅在开头)。",
+    durationsUnknown: "部分时长未知，时间为估算值。",
+    analyzeDurations: "分析曲目",
+    cancel: "取消",
+    exportTarget: "保存方式",
+    exportTargets: {
+      download: "完成后下载",
+      file: "直接写入文件"
+    },
+    savedToFile: (name: string) => `已保存到 ${name}`,
+    tracklistDownloads: "曲目单：",
+
+    exportPreset: "导出预设",
+    exportPresets: {
+      standard: "标准 MP3 (128 kbps)",
+      high: "高品质 MP3 (VBR)",
+      voice: "仅语音 (单声道, 64 kbps)",
+      wav16: "无损 WAV (16 位)",
+      wav24: "无损 WAV (24 位)"
+    },
+    customPreset: "自定义",
+    exportFormat: "格式",
+    wavLossless: "WAV (无损)",
+    mp3Mode: "码率模式",
+    mp3Modes: {
+      cbr: "固定码率 (CBR)",
+      vbr: "可变码率 (VBR)"
+    },
+    bitrate: "码率",
+    vbrQuality: "VBR 质量 (0 = 最佳)",
+    bitDepth: "位深",
+    channels: "声道",
+    stereo: "立体声",
+    mono: "单声道",
+    sampleRate: "采样率",
+    splitExport: "分段导出",
+    splitModes: {
+      off: "不分段",
+      minutes: "按时长",
+      megabytes: "按文件大小"
+    },
+    maxPartMinutes: "每段最长分钟数",
+    maxPartMegabytes: "每段最大 MB",
+    splitHelp: "只在曲目之间切分，每段都是完整的文件，因此跨越切分点的交叉淡化会被省略。文件大小在编码前估算，并留有余量。",
+    partLabel: (part: number, total: number) => `第 ${part}/${total} 段`,
+    splitLimitInvalid: (min: number) => `每段上限不能小于 ${min}。`,
+    wavTooLarge: (file: string) => `${file} 将超过 4 GB，超出 WAV 文件的上限。请将导出分段或改用 MP3。`,
+
+    projects: "已保存的项目",
+    projectName: "项目名称",
+    saveProject: "保存",
+    noProjects: "还没有保存的项目。",
+    projectSummary: (count: number, date: string) => `${count} 首曲目 · ${date}`,
+    openProject: "打开",
+    duplicateProject: "复制",
+    deleteProject: "删除",
+    confirmDeleteProject: (name: string) => `确定删除项目“${name}”吗？此操作无法撤销。`,
+    projectCopyName: (name: string) => `${name} (副本)`,
+    exportProjectFile: "导出文件",
+    importProjectFile: "导入文件",
+    projectError: "项目操作失败: ",
+
     vibes: {
       [VibeType.ENERGETIC]: '充满活力 & 欢快',
       [VibeType.RELAXED]: '轻松 & 惬意',
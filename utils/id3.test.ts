@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { buildId3Tag } from './id3';
+
+// Syncsafe size from the tag header, 7 bits per byte
+const tagSize = (tag: Uint8Array) => (tag[6] << 21) | (tag[7] << 14) | (tag[8] << 7) | tag[9];
+
+describe('buildId3Tag', () => {
+  it('builds tags with a very long tracklist comment and many chapters', () => {
+    const chapters = Array.from({ length: 600 }, (_, i) => ({ title: `Track ${i}`, start: i * 1000, end: i * 1000 + 999 }));
+    const tag = buildId3Tag({ title: 'Broadcast', artist: 'Store', album: 'Relaxed', comment: 'x'.repeat(500000), chapters });
+    expect(new TextDecoder('latin1').decode(tag.subarray(0, 3))).toBe('ID3');
+    expect(tagSize(tag)).toBe(tag.length - 10);
+    // A top-level table listing the child tables of up to 255 chapters
+    expect(new TextDecoder('latin1').decode(tag).match(/CTOC/g)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,97 @@
+export interface Id3Chapter {
+  title: string;
+  start: number; // in milliseconds
+  end: number; // in milliseconds
+}
+
+export interface Id3Tags {
+  title: string;
+  artist: string;
+  album: string;
+  comment?: string;
+  chapters?: Id3Chapter[];
+}
+
+const latin1 = (text: string): number[] => Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+// Encoding byte 1 = UTF-16 with BOM, so store names in Chinese survive
+const utf16 = (text: string, terminated = false): number[] => {
+  const bytes = [0xff, 0xfe];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes.push(code & 0xff, code >> 8);
+  }
+  if (terminated) bytes.push(0, 0);
+  return bytes;
+};
+
+const uint32 = (value: number): number[] => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+// Joined once at the end: spreading long frames into push() runs out of arguments
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// ID3v2.3 frames: 4 char id, plain 32-bit size, 2 flag bytes
+const frame = (id: string, body: ArrayLike<number>): Uint8Array =>
+  concat([Uint8Array.from([...latin1(id), ...uint32(body.length), 0, 0]), Uint8Array.from(body)]);
+
+const textFrame = (id: string, text: string): Uint8Array => frame(id, [1, ...utf16(text)]);
+
+/**
+ * Builds an ID3v2.3 tag to put in front of an MP3 stream.
+ * Chapters use the CHAP/CTOC frames from the ID3v2 chapter addendum, with a
+ * top-level table of contents listing them in order, through child tables when there are over 255.
+ */
+export const buildId3Tag = (tags: Id3Tags): Uint8Array => {
+  const frames: Uint8Array[] = [
+    textFrame('TIT2', tags.title),
+    textFrame('TPE1', tags.artist),
+    textFrame('TALB', tags.album),
+  ];
+
+  if (tags.comment) {
+    frames.push(frame('COMM', concat([Uint8Array.from([1, ...latin1('eng'), ...utf16('', true)]), Uint8Array.from(utf16(tags.comment))])));
+  }
+
+  const chapters = tags.chapters ?? [];
+  if (chapters.length > 0) {
+    const ids = chapters.map((_, i) => `chp${i}`);
+    const toc = (id: string, flags: number, entries: string[]) => frame('CTOC', [
+      ...latin1(id), 0,
+      flags,
+      entries.length,
+      ...entries.flatMap(entry => [...latin1(entry), 0]),
+    ]);
+    // CTOC stores the entry count in a single byte, so longer lists go into child tables of 255
+    if (ids.length <= 255) {
+      frames.push(toc('toc', 0x03, ids)); // top-level, ordered
+    } else {
+      const groups = Array.from({ length: Math.ceil(ids.length / 255) }, (_, g) => ids.slice(g * 255, (g + 1) * 255));
+      frames.push(toc('toc', 0x03, groups.map((_, g) => `toc${g}`)));
+      groups.forEach((group, g) => frames.push(toc(`toc${g}`, 0x01, group))); // ordered
+    }
+    chapters.forEach((chapter, i) => {
+      frames.push(frame('CHAP', [
+        ...latin1(ids[i]), 0,
+        ...uint32(Math.round(chapter.start)),
+        ...uint32(Math.round(chapter.end)),
+        0xff, 0xff, 0xff, 0xff, // no byte offsets, times only
+        0xff, 0xff, 0xff, 0xff,
+        ...textFrame('TIT2', chapter.title),
+      ]));
+    });
+  }
+
+  // Header size is syncsafe: 7 bits per byte
+  const body = concat(frames);
+  const size = body.length;
+  const header = Uint8Array.from([...latin1('ID3'), 3, 0, 0, (size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+  return concat([header, body]);
+};
@@ -0,0 +1,161 @@
+import { ExportSettings, MasterSettings, MasterStats } from '../types';
+import { StereoChannels } from './audio';
+
+export const DEFAULT_MASTER: MasterSettings = {
+  limiter: true,
+  ceiling: -1,
+  lookahead: 5,
+  release: 150,
+  dither: true,
+};
+
+/**
+ * Whether the export ends up as 16-bit samples: 16-bit WAV, or CBR MP3 whose encoder takes 16-bit input.
+ */
+export const reducesTo16Bit = (settings: ExportSettings): boolean =>
+  settings.format === 'wav' ? settings.bitDepth === 16 : settings.mp3Mode === 'cbr';
+
+export interface MasterProcessor {
+  /** Limits and dithers a mixed block. With the limiter on, the output lags the input by the look-ahead. */
+  process: (block: StereoChannels) => StereoChannels;
+  /** The samples still held back for the look-ahead, after the last block. */
+  flush: () => StereoChannels;
+  stats: () => MasterStats;
+}
+
+// Audible gain reduction starts somewhere around a hundredth of a dB
+const LIMITED_BELOW = Math.pow(10, -0.01 / 20);
+
+// Catmull-Rom between x1 and x2, enough to catch most of the overs between samples (4x oversampling)
+const segmentPeak = (x0: number, x1: number, x2: number, x3: number): number => {
+  let peak = 0;
+  for (const t of [0.25, 0.5, 0.75]) {
+    const y = x1 + 0.5 * t * (x2 - x0 + t * (2 * x0 - 5 * x1 + 4 * x2 - x3 + t * (3 * (x1 - x2) + x3 - x0)));
+    peak = Math.max(peak, Math.abs(y));
+  }
+  return peak;
+};
+
+/**
+ * The master stage between the mixer and the encoder.
+ *
+ * The limiter looks at the estimated true peak of both channels together and holds the lowest
+ * gain any sample in the look-ahead window needs, so the gain is already down when the peak
+ * arrives: the held gain is averaged over the look-ahead for a smooth attack and recovers
+ * exponentially over the release time. Whatever still ends up past full scale is clipped
+ * and counted. TPDF dither of one 16-bit step goes on last, when `exportSettings` are 16-bit.
+ */
+export const createMasterProcessor = (settings: MasterSettings, exportSettings: ExportSettings): MasterProcessor => {
+  const { sampleRate } = exportSettings;
+  const dither = settings.dither && reducesTo16Bit(exportSettings);
+  const ceiling = Math.pow(10, settings.ceiling / 20);
+  const lookahead = Math.max(1, Math.round(settings.lookahead / 1000 * sampleRate));
+  const releaseCoef = 1 - Math.exp(-1 / Math.max(1, settings.release / 1000 * sampleRate));
+  // The true-peak estimate of a sample needs the two after it
+  const delay = settings.limiter ? lookahead + 2 : 0;
+
+  const stats: MasterStats = { limited: 0, clipped: 0, maxReduction: 0 };
+
+  // Audio waiting for its gain
+  const audio = { left: new Float32Array(delay), right: new Float32Array(delay) };
+  // The last five input samples per channel, newest last, for the peak estimate
+  const recent = { left: new Float64Array(5), right: new Float64Array(5) };
+  let previousSegment = 0;
+  // Sliding minimum of the gain needed, as a monotonic queue of (index, gain)
+  const queueIndex = new Float64Array(lookahead + 1);
+  const queueGain = new Float64Array(lookahead + 1);
+  let queueHead = 0;
+  let queueSize = 0;
+  let held = 1;
+  // Running average of the held gain over the look-ahead
+  const average = new Float64Array(lookahead).fill(1);
+  let averageSum = lookahead;
+  let received = 0;
+
+  const finish = (left: number, right: number, gain: number, out: StereoChannels, i: number) => {
+    if (gain < LIMITED_BELOW) {
+      stats.limited++;
+      stats.maxReduction = Math.max(stats.maxReduction, -20 * Math.log10(gain));
+    }
+    left *= gain;
+    right *= gain;
+    if (dither) {
+      left += (Math.random() + Math.random() - 1) / 32768;
+      right += (Math.random() + Math.random() - 1) / 32768;
+    }
+    if (Math.abs(left) > 1 || Math.abs(right) > 1) {
+      stats.clipped++;
+      left = Math.max(-1, Math.min(1, left));
+      right = Math.max(-1, Math.min(1, right));
+    }
+    out.left[i] = left;
+    out.right[i] = right;
+  };
+
+  // Takes one input sample, returns the gain for the sample `delay` before it
+  const nextGain = (left: number, right: number): number => {
+    const r = recent;
+    r.left.copyWithin(0, 1);
+    r.right.copyWithin(0, 1);
+    r.left[4] = left;
+    r.right[4] = right;
+    // Peak of the sample two back: itself and the segments on either side of it
+    const segment = Math.max(segmentPeak(r.left[1], r.left[2], r.left[3], r.left[4]), segmentPeak(r.right[1], r.right[2], r.right[3], r.right[4]));
+    const peak = Math.max(Math.abs(r.left[2]), Math.abs(r.right[2]), previousSegment, segment);
+    previousSegment = segment;
+    const needed = peak > ceiling ? ceiling / peak : 1;
+
+    const index = received;
+    const capacity = queueIndex.length;
+    while (queueSize > 0 && queueIndex[queueHead] < index - lookahead) {
+      queueHead = (queueHead + 1) % capacity;
+      queueSize--;
+    }
+    while (queueSize > 0 && queueGain[(queueHead + queueSize - 1) % capacity] >= needed) queueSize--;
+    queueIndex[(queueHead + queueSize) % capacity] = index;
+    queueGain[(queueHead + queueSize) % capacity] = needed;
+    queueSize++;
+    const minimum = queueGain[queueHead];
+
+    held = minimum < held ? minimum : held + (minimum - held) * releaseCoef;
+    const slot = index % lookahead;
+    averageSum += held - average[slot];
+    average[slot] = held;
+    return Math.min(1, averageSum / lookahead);
+  };
+
+  const run = (block: StereoChannels): StereoChannels => {
+    const length = block.left.length;
+    if (!settings.limiter) {
+      const out = { left: new Float32Array(length), right: new Float32Array(length) };
+      for (let i = 0; i < length; i++) finish(block.left[i], block.right[i], 1, out, i);
+      return out;
+    }
+
+    const ready = Math.max(0, received + length - delay) - Math.max(0, received - delay);
+    const out = { left: new Float32Array(ready), right: new Float32Array(ready) };
+    let written = 0;
+    for (let i = 0; i < length; i++) {
+      const gain = nextGain(block.left[i], block.right[i]);
+      const slot = received % delay;
+      if (received >= delay) {
+        finish(audio.left[slot], audio.right[slot], gain, out, written++);
+      }
+      audio.left[slot] = block.left[i];
+      audio.right[slot] = block.right[i];
+      received++;
+    }
+    return out;
+  };
+
+  return {
+    process: run,
+    flush: () => {
+      // Silence pushes out what is held back; only as much as was ever put in
+      const pending = Math.min(delay, received);
+      const tail = run({ left: new Float32Array(delay), right: new Float32Array(delay) });
+      return { left: tail.left.subarray(tail.left.length - pending), right: tail.right.subarray(tail.right.length - pending) };
+    },
+    stats: () => ({ ...stats }),
+  };
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { HISTORY_DAYS, LiveEntry, recentLiveHistory } from './live';
+
+const entry = (startedAt: Date): LiveEntry => ({
+  id: `${startedAt.getTime()}-song`,
+  trackId: 'song',
+  name: 'Song',
+  type: 'music',
+  startedAt: startedAt.getTime(),
+  trigger: 'queue',
+});
+
+describe('recentLiveHistory', () => {
+  it('keeps every play of the last days, however many there are', () => {
+    const now = new Date(2026, 9, 19, 21, 0).getTime();
+    const today = Array.from({ length: 1000 }, (_, i) => entry(new Date(now - i * 30000)));
+    const firstDay = entry(new Date(2026, 9, 19 - (HISTORY_DAYS - 1), 0, 5));
+    const older = entry(new Date(2026, 9, 19 - HISTORY_DAYS, 23, 55));
+    expect(recentLiveHistory([...today, firstDay, older], now)).toEqual([...today, firstDay]);
+  });
+});
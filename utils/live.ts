@@ -0,0 +1,559 @@
+import { CrossfadeSettings, DuckingSettings, LiveSettings, MasterSettings, Track, TransitionRule } from '../types';
+import { StereoChannels } from './audio';
+import { fadeGain, resolveTransition } from './crossfade';
+import { expandSchedule } from './schedule';
+import { isOverlay } from './timeline';
+
+export const DEFAULT_LIVE: LiveSettings = {
+  loop: true,
+  shuffle: false,
+};
+
+// Seconds of audio kept scheduled ahead of the playhead, enough to decode the next track in
+const SCHEDULE_AHEAD = 30;
+// Seconds before its time an announcement starts loading, so it begins on the minute
+const CLOCK_LEAD = 20;
+// An announcement missed by more than this (the PC was asleep) is skipped rather than played late
+const CLOCK_GRACE = 120;
+const TICK_MS = 500;
+// Points per fade curve handed to Web Audio
+const CURVE_POINTS = 64;
+
+/**
+ * Parses times typed as "21:45, 9:00" into sorted "HH:MM" strings, dropping anything that isn't a time.
+ */
+export const parseClockTimes = (text: string): string[] => {
+  const times = text.split(/[,\s]+/).flatMap(part => {
+    const match = part.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return [];
+    return [`${match[1].padStart(2, '0')}:${match[2]}`];
+  });
+  return [...new Set(times)].sort();
+};
+
+/**
+ * Voiceovers that play at set times of day instead of from the queue.
+ */
+export const isClockAnnouncement = (track: Track): boolean => track.type === 'voiceover' && (track.playAt?.length ?? 0) > 0;
+
+// The play log belongs to this browser and outlives the page, so a reload or crash doesn't wipe the day's record
+const HISTORY_KEY = 'live_history';
+// Days of plays kept, a week of long store days is well within what localStorage holds
+export const HISTORY_DAYS = 7;
+
+/**
+ * Drops entries from before the last `HISTORY_DAYS` days (counting today), however many plays that is.
+ */
+export const recentLiveHistory = (history: LiveEntry[], now = Date.now()): LiveEntry[] => {
+  const since = new Date(now);
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - (HISTORY_DAYS - 1));
+  return history.filter(entry => entry.startedAt >= since.getTime());
+};
+
+export const loadLiveHistory = (): LiveEntry[] => {
+  try {
+    return recentLiveHistory(JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]'));
+  } catch {
+    return [];
+  }
+};
+
+export const saveLiveHistory = (history: LiveEntry[]) => {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+};
+
+const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * The play log as CSV, oldest first, with local times as they were shown.
+ */
+export const liveHistoryCsv = (history: LiveEntry[]): string => {
+  const rows = [...history].reverse().map(entry => [
+    new Date(entry.startedAt).toLocaleString(),
+    entry.name,
+    entry.type,
+    entry.trigger,
+  ].map(csvField).join(','));
+  return ['time,name,type,trigger', ...rows].join('\n') + '\n';
+};
+
+export interface LiveEntry {
+  id: string;
+  trackId: string;
+  name: string;
+  type: Track['type'];
+  startedAt: number; // epoch ms
+  trigger: 'queue' | 'clock';
+}
+
+export interface LiveState {
+  playing: boolean;
+  suspended: boolean; // The browser stopped the audio and it needs a click to come back
+  current: { track: Track, startedAt: number, duration: number } | null; // startedAt in epoch ms, duration in seconds
+  next: Track | null;
+  announcement: Track | null; // Speaking over the music right now
+}
+
+export interface LivePlayerOptions {
+  context: AudioContext;
+  /** The track prepared for playback at the context's rate, or null when it has no audio. */
+  load: (track: Track) => Promise<StereoChannels | null>;
+  // Read every time they're needed, so edits made while playing apply from the next track on
+  tracks: () => Track[];
+  settings: () => { live: LiveSettings, crossfade: CrossfadeSettings, ducking: DuckingSettings, master: MasterSettings };
+  onState: (state: LiveState) => void;
+  onHistory: (entry: LiveEntry) => void;
+  onError: (track: Track, error: unknown) => void;
+}
+
+export interface LivePlayer {
+  start: () => void;
+  stop: () => void;
+  /** Cuts to the next track in the queue. */
+  skip: () => void;
+  /** Tries to restart audio the browser suspended; needs to run from a click. */
+  resume: () => Promise<void>;
+}
+
+interface Scheduled {
+  track: Track;
+  buffer: AudioBuffer;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  start: number; // context time
+  end: number;
+  trigger: LiveEntry['trigger'];
+  logged: boolean;
+  riders: Scheduled[]; // Queue voiceovers playing over the start of this main track
+}
+
+interface Loaded {
+  track: Track;
+  buffer: AudioBuffer;
+}
+
+const shuffled = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Plays the queue through Web Audio in real time instead of exporting it.
+ *
+ * Each track is decoded while the one before plays and started at the exact context time the
+ * previous one ends (or its crossfade begins), so there are no gaps. Announcements with clock
+ * times start on their minute over the music, which ducks under them. A timer checks about
+ * twice a second what needs loading; browsers keep running it in the background because the
+ * page is playing audio, and after sleep or a suspended context the player resumes and picks up
+ * from wherever the audio clock stands, skipping announcements that are long past.
+ */
+export const createLivePlayer = (options: LivePlayerOptions): LivePlayer => {
+  const { context: ctx } = options;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let nodes: { music: GainNode, master: AudioNode, keepAlive: ConstantSourceNode } | null = null;
+  let wakeLock: { release: () => Promise<void> } | null = null;
+
+  let main: Scheduled[] = []; // Back to back, in the order they play
+  let overlays: Scheduled[] = [];
+  let waiting: Loaded[] = []; // Queue voiceovers loaded ahead of the main track they play over
+  let pass: Track[] = []; // Rest of the current pass through the queue
+  let lastTrack: Track | null = null;
+  let cursor = 0; // Context time where the next main track starts, before its transition
+  let passes = 0;
+  let loading = false;
+  let failures = 0;
+  let startedAt = 0; // epoch ms
+  let fired = new Set<string>(); // Clock announcements already played today, as "time id"
+  let firedDay = '';
+  let lastTick = 0;
+  let lastState = '';
+
+  const running = () => timer !== null;
+
+  const emit = () => {
+    const now = ctx.currentTime;
+    const current = main.find(item => item.start <= now && now < item.end) ?? null;
+    const next = main.find(item => item.start > now)?.track ?? pass.find(track => !isOverlay(track)) ?? null;
+    const announcement = overlays.find(item => item.start <= now && now < item.end)?.track ?? null;
+    const state: LiveState = {
+      playing: running(),
+      suspended: running() && ctx.state !== 'running',
+      current: current && {
+        track: current.track,
+        startedAt: Date.now() - (now - current.start) * 1000,
+        duration: current.buffer.duration,
+      },
+      next,
+      announcement,
+    };
+    // Only when something visible changed, not on every tick
+    const key = JSON.stringify([state.playing, state.suspended, current?.track.id, current?.start, next?.id, announcement?.id]);
+    if (key !== lastState) {
+      lastState = key;
+      options.onState(state);
+    }
+  };
+
+  const nextPass = (): Track[] => {
+    const queue = options.tracks().filter(track => !isClockAnnouncement(track));
+    let order = queue;
+    if (options.settings().live.shuffle) {
+      // Songs change places, voiceovers keep theirs
+      const songs = shuffled(queue.filter(track => track.type === 'music'));
+      // Don't start the new pass with the song that just ended it
+      if (songs.length > 1 && songs[0].id === lastTrack?.id) songs.push(songs.shift()!);
+      order = queue.map(track => track.type === 'music' ? songs.shift()! : track);
+    }
+    // Overlays alone never move the playhead on
+    if (order.every(isOverlay)) return [];
+    return expandSchedule(order, Object.fromEntries(queue.map(track => [track.id, track.duration])));
+  };
+
+  const toBuffer = (channels: StereoChannels): AudioBuffer => {
+    const buffer = ctx.createBuffer(2, Math.max(1, channels.left.length), ctx.sampleRate);
+    buffer.copyToChannel(channels.left, 0);
+    buffer.copyToChannel(channels.right, 1);
+    return buffer;
+  };
+
+  const fade = (param: AudioParam, rule: TransitionRule, direction: 'in' | 'out', at: number, duration: number) => {
+    const curve = Float32Array.from({ length: CURVE_POINTS }, (_, i) => fadeGain(rule.curve, i / (CURVE_POINTS - 1), direction));
+    param.setValueCurveAtTime(curve, at, duration);
+  };
+
+  const play = (track: Track, buffer: AudioBuffer, at: number, destination: AudioNode, trigger: LiveEntry['trigger']): Scheduled => {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    const gain = ctx.createGain();
+    source.connect(gain).connect(destination);
+    source.start(at);
+    return { track, buffer, source, gain, start: at, end: at + buffer.duration, trigger, logged: false, riders: [] };
+  };
+
+  const discard = (item: Scheduled) => {
+    try {
+      item.source.stop();
+    } catch {
+      // Never started
+    }
+    item.source.disconnect();
+    item.gain.disconnect();
+  };
+
+  // Fades an item out from now until `at` and stops it there. Everything scheduled on its gain
+  // goes, a fade curve in progress can't be cut short otherwise
+  const cut = (item: Scheduled, at: number) => {
+    const now = ctx.currentTime;
+    const level = item.gain.gain.value;
+    item.gain.gain.cancelScheduledValues(0);
+    item.gain.gain.setValueAtTime(level, now);
+    item.gain.gain.linearRampToValueAtTime(0, at);
+    item.source.stop(at);
+    item.end = at;
+  };
+
+  // Puts a loaded main track after the ones already scheduled, with the voiceovers waiting for it
+  const scheduleMain = (track: Track, buffer: AudioBuffer) => {
+    const previous = main[main.length - 1];
+    const rule = previous && lastTrack ? resolveTransition(options.settings().crossfade, lastTrack, track) : null;
+    const length = rule ? Math.min(rule.duration, buffer.duration / 2, previous.buffer.duration / 2) : 0;
+    const due = cursor - (rule?.overlap ? length : 0);
+    // Behind the playhead after a stall or a skip: start right away instead of in the past
+    const start = Math.max(due, ctx.currentTime + 0.1);
+    const item = play(track, buffer, start, nodes!.music, 'queue');
+    if (start > due) {
+      // Too late for the transition: the one before makes way rather than playing on under this one
+      if (previous && previous.end > start) cut(previous, start);
+    } else if (rule && length > 0 && previous.end - length > ctx.currentTime) {
+      fade(previous.gain.gain, rule, 'out', previous.end - length, length);
+      fade(item.gain.gain, rule, 'in', start, length);
+    }
+    main.push(item);
+    cursor = item.end;
+    lastTrack = track;
+
+    // Over the start of the song, one after another, as in the export
+    let at = start + options.settings().ducking.leadIn;
+    for (const rider of waiting) {
+      const overlay = scheduleOverlay(rider.track, rider.buffer, at, 'queue');
+      item.riders.push(overlay);
+      at = overlay.end;
+    }
+    waiting = [];
+  };
+
+  // Lays the ducking of the music out again for every announcement still to come or still
+  // speaking, so overlapping ones keep it down until the last of them is done
+  const duck = () => {
+    const { ducking } = options.settings();
+    const music = nodes!.music.gain;
+    const now = ctx.currentTime;
+    const ducked = Math.pow(10, -Math.abs(ducking.amount) / 20);
+    const spans: [number, number][] = [];
+    for (const { start, end } of [...overlays].sort((a, b) => a.start - b.start)) {
+      if (end + ducking.release <= now) continue;
+      const last = spans[spans.length - 1];
+      if (last && start - ducking.attack <= last[1] + ducking.release) last[1] = Math.max(last[1], end);
+      else spans.push([start, end]);
+    }
+
+    const level = music.value;
+    music.cancelScheduledValues(now);
+    music.setValueAtTime(level, now);
+    for (const [start, end] of spans) {
+      if (end > now) {
+        if (start - ducking.attack > now) music.setValueAtTime(1, start - ducking.attack);
+        music.linearRampToValueAtTime(ducked, Math.max(start, now));
+        music.setValueAtTime(ducked, end);
+      }
+      music.linearRampToValueAtTime(1, end + ducking.release);
+    }
+  };
+
+  // An announcement over the music: the music bus ducks around it
+  const scheduleOverlay = (track: Track, buffer: AudioBuffer, at: number, trigger: LiveEntry['trigger']): Scheduled => {
+    const { ducking } = options.settings();
+    const start = Math.max(at, ctx.currentTime + ducking.attack + 0.05);
+    const item = play(track, buffer, start, nodes!.master, trigger);
+    overlays.push(item);
+    duck();
+    return item;
+  };
+
+  const load = async (track: Track): Promise<AudioBuffer | null> => {
+    try {
+      const channels = await options.load(track);
+      if (channels && channels.left.length > 0) return toBuffer(channels);
+    } catch (e) {
+      options.onError(track, e);
+    }
+    return null;
+  };
+
+  // Loads and schedules the next track of the queue when the scheduled audio runs short
+  const fillAhead = async () => {
+    if (loading || cursor - ctx.currentTime > SCHEDULE_AHEAD) return;
+    if (pass.length === 0) {
+      if (passes > 0 && !options.settings().live.loop) {
+        // Played through once: stop when the last track is done
+        if (ctx.currentTime >= cursor) stop();
+        return;
+      }
+      pass = nextPass();
+      passes++;
+      if (pass.length === 0) {
+        stop();
+        return;
+      }
+    }
+
+    const track = pass.shift()!;
+    loading = true;
+    try {
+      const buffer = await load(track);
+      if (!running()) return;
+      if (!buffer) {
+        // A whole pass that can't be played would otherwise be retried forever
+        if (++failures >= Math.max(1, options.tracks().length)) stop();
+        return;
+      }
+      failures = 0;
+      if (isOverlay(track)) {
+        waiting.push({ track, buffer });
+      } else {
+        scheduleMain(track, buffer);
+      }
+    } finally {
+      loading = false;
+    }
+    emit();
+  };
+
+  const clockDue = () => {
+    const now = new Date();
+    const today = now.toDateString();
+    if (today !== firedDay) {
+      fired = new Set();
+      firedDay = today;
+    }
+    for (const track of options.tracks().filter(isClockAnnouncement)) {
+      for (const time of track.playAt!) {
+        const [hours, minutes] = time.split(':').map(Number);
+        const due = new Date(now).setHours(hours, minutes, 0, 0);
+        const key = `${time} ${track.id}`;
+        const until = (due - now.getTime()) / 1000;
+        // Times that had passed when the player started don't all go off at once
+        if (fired.has(key) || due < startedAt || until > CLOCK_LEAD || until < -CLOCK_GRACE) continue;
+        fired.add(key);
+        load(track).then(buffer => {
+          if (!buffer || !running()) return;
+          // The wall clock mapped onto the audio clock as it stands once loaded
+          scheduleOverlay(track, buffer, ctx.currentTime + (due - Date.now()) / 1000, 'clock');
+          emit();
+        });
+      }
+    }
+  };
+
+  const tick = () => {
+    // A long gap between ticks means the machine slept or the tab was frozen
+    const asleep = lastTick > 0 && Date.now() - lastTick > 5000;
+    lastTick = Date.now();
+    if (ctx.state !== 'running' || asleep) {
+      ctx.resume().catch(() => {});
+    }
+
+    const now = ctx.currentTime;
+    for (const item of [...main, ...overlays]) {
+      if (!item.logged && item.start <= now) {
+        item.logged = true;
+        const startedAt = Math.round(Date.now() - (now - item.start) * 1000);
+        options.onHistory({
+          // Unique across players, since the history outlives them
+          id: `${startedAt}-${item.track.id}`,
+          trackId: item.track.id,
+          name: item.track.name,
+          type: item.track.type,
+          startedAt,
+          trigger: item.trigger,
+        });
+      }
+    }
+    // Played out: let go of the decoded audio
+    const done = (item: Scheduled) => item.logged && item.end + 1 < now;
+    [...main, ...overlays].filter(done).forEach(discard);
+    main = main.filter(item => !done(item));
+    overlays = overlays.filter(item => !done(item));
+
+    clockDue();
+    fillAhead();
+    emit();
+  };
+
+  const onVisibility = () => {
+    if (document.visibilityState === 'visible') {
+      // Wake locks are released whenever the tab is hidden
+      requestWakeLock();
+      tick();
+    }
+  };
+
+  const requestWakeLock = () => {
+    const nav = navigator as Navigator & { wakeLock?: { request: (type: 'screen') => Promise<{ release: () => Promise<void> }> } };
+    // Keeps the store PC from going to sleep while it plays; not every browser has it
+    nav.wakeLock?.request('screen').then(lock => { wakeLock = lock; }).catch(() => {});
+  };
+
+  const start = () => {
+    if (running()) return;
+    const { master } = options.settings();
+    const music = ctx.createGain();
+    let output: AudioNode = ctx.createGain();
+    if (master.limiter) {
+      // Web Audio's compressor with a hard knee and a high ratio is the closest it has to a limiter
+      const limiter = ctx.createDynamicsCompressor();
+      limiter.threshold.value = master.ceiling;
+      limiter.knee.value = 0;
+      limiter.ratio.value = 20;
+      limiter.attack.value = master.lookahead / 1000;
+      limiter.release.value = master.release / 1000;
+      output = limiter;
+    }
+    output.connect(ctx.destination);
+    music.connect(output);
+    // A silent source keeps the context rendering while nothing is scheduled, e.g. during a slow decode
+    const keepAlive = ctx.createConstantSource();
+    keepAlive.offset.value = 0;
+    keepAlive.connect(ctx.destination);
+    keepAlive.start();
+    nodes = { music, master: output, keepAlive };
+
+    main = [];
+    overlays = [];
+    waiting = [];
+    pass = [];
+    lastTrack = null;
+    passes = 0;
+    failures = 0;
+    startedAt = Date.now();
+    firedDay = '';
+    lastTick = 0;
+    lastState = '';
+    cursor = ctx.currentTime + 0.1;
+
+    timer = setInterval(tick, TICK_MS);
+    document.addEventListener('visibilitychange', onVisibility);
+    ctx.addEventListener('statechange', tick);
+    requestWakeLock();
+    ctx.resume().catch(() => {});
+    tick();
+  };
+
+  const stop = () => {
+    if (!running()) return;
+    clearInterval(timer!);
+    timer = null;
+    document.removeEventListener('visibilitychange', onVisibility);
+    ctx.removeEventListener('statechange', tick);
+    [...main, ...overlays].forEach(discard);
+    main = [];
+    overlays = [];
+    waiting = [];
+    pass = [];
+    if (nodes) {
+      nodes.keepAlive.stop();
+      nodes.keepAlive.disconnect();
+      nodes.music.disconnect();
+      nodes.master.disconnect();
+      nodes = null;
+    }
+    wakeLock?.release().catch(() => {});
+    wakeLock = null;
+    emit();
+  };
+
+  const skip = () => {
+    if (!running()) return;
+    const now = ctx.currentTime;
+    // Both sides of a crossfade in progress go
+    const playing = main.filter(item => item.start <= now && now < item.end);
+    const upcoming = main.filter(item => item.start > now);
+    const unstarted = (riders: Scheduled[]) => riders.filter(rider => rider.start > now);
+
+    // Announcements that hadn't started yet move along with the music they were placed over;
+    // those of the skipped songs go over the next one
+    const moved = [...playing, ...upcoming].flatMap(item => unstarted(item.riders));
+    moved.forEach(discard);
+    overlays = overlays.filter(overlay => !moved.includes(overlay));
+
+    playing.forEach(item => cut(item, now + 0.3));
+    // What was already loaded moves up, without a crossfade into it
+    upcoming.forEach(discard);
+    main = main.filter(item => !upcoming.includes(item));
+    cursor = now + 0.3;
+    lastTrack = null;
+    const loaded = (item: Scheduled) => ({ track: item.track, buffer: item.buffer });
+    // Already waiting for the track after the loaded ones
+    const later = waiting;
+    waiting = playing.flatMap(item => unstarted(item.riders).map(loaded));
+    for (const item of upcoming) {
+      waiting.push(...unstarted(item.riders).map(loaded));
+      scheduleMain(item.track, item.buffer);
+    }
+    waiting.push(...later);
+    duck();
+    tick();
+  };
+
+  const resume = async () => {
+    await ctx.resume();
+    tick();
+  };
+
+  return { start, stop, skip, resume };
+};
@@ -0,0 +1,175 @@
+import { LoudnessInfo, LoudnessSettings } from '../types';
+import { StereoChannels } from './audio';
+
+export const DEFAULT_LOUDNESS: LoudnessSettings = {
+  enabled: false,
+  targetLufs: -16,
+  maxTruePeak: -1,
+};
+
+// ITU-R BS.1770 channel weights for a 5.1 layout (L, R, C, LFE, Ls, Rs). LFE is ignored.
+const SURROUND_WEIGHTS = [1, 1, 1, 0, 1.41, 1.41];
+
+const toDb = (linear: number) => 20 * Math.log10(linear);
+
+/**
+ * Builds the two K-weighting biquads (high shelf + RLB high pass) for a sample rate.
+ * Coefficients follow the analog prototypes used by libebur128 so any rate works, not just 48 kHz.
+ */
+const kWeightingFilters = (sampleRate: number) => {
+  let f0 = 1681.974450955533;
+  let Q = 0.7071752369554196;
+  let K = Math.tan(Math.PI * f0 / sampleRate);
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b: [(Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0],
+    a: [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0],
+  };
+
+  f0 = 38.13547087602444;
+  Q = 0.5003270373238773;
+  K = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b: [1, -2, 1],
+    a: [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0],
+  };
+
+  return [shelf, highPass];
+};
+
+/**
+ * Sum of squared K-weighted samples for every 100ms step of one channel.
+ */
+const weightedStepEnergy = (data: Float32Array, sampleRate: number, stepLength: number): Float64Array => {
+  const filters = kWeightingFilters(sampleRate);
+  const steps = new Float64Array(Math.floor(data.length / stepLength));
+  // Direct form I state for both stages
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0, z1 = 0, z2 = 0;
+  const [s, h] = filters;
+
+  for (let i = 0; i < steps.length * stepLength; i++) {
+    const x = data[i];
+    const y = s.b[0] * x + s.b[1] * x1 + s.b[2] * x2 - s.a[0] * y1 - s.a[1] * y2;
+    x2 = x1; x1 = x;
+    const z = h.b[0] * y + h.b[1] * y1 + h.b[2] * y2 - h.a[0] * z1 - h.a[1] * z2;
+    y2 = y1; y1 = y;
+    z2 = z1; z1 = z;
+    steps[Math.floor(i / stepLength)] += z * z;
+  }
+  return steps;
+};
+
+/**
+ * Integrated loudness (LUFS) per EBU R128: 400ms blocks with 75% overlap,
+ * an absolute gate at -70 LUFS and a relative gate 10 LU below the ungated level.
+ */
+const integratedLoudness = (buffer: AudioBuffer): number => {
+  const stepLength = Math.round(buffer.sampleRate * 0.1);
+  const channelCount = buffer.numberOfChannels;
+  let stepPower: Float64Array | null = null;
+
+  for (let c = 0; c < channelCount; c++) {
+    // Mono gets played on both speakers of the stereo mix, so it counts twice
+    const weight = channelCount === 6 ? SURROUND_WEIGHTS[c] : channelCount === 1 ? 2 : 1;
+    if (weight === 0) continue;
+    const steps = weightedStepEnergy(buffer.getChannelData(c), buffer.sampleRate, stepLength);
+    if (!stepPower) stepPower = new Float64Array(steps.length);
+    for (let i = 0; i < steps.length; i++) stepPower[i] += weight * steps[i];
+  }
+  if (!stepPower || stepPower.length < 4) return -Infinity;
+
+  const blockPower: number[] = [];
+  for (let i = 0; i + 4 <= stepPower.length; i++) {
+    blockPower.push((stepPower[i] + stepPower[i + 1] + stepPower[i + 2] + stepPower[i + 3]) / (stepLength * 4));
+  }
+
+  const loudnessOf = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  const absoluteGated = blockPower.filter(p => loudnessOf(p) > -70);
+  if (absoluteGated.length === 0) return -Infinity;
+
+  const relativeGate = loudnessOf(mean(absoluteGated)) - 10;
+  const relativeGated = absoluteGated.filter(p => loudnessOf(p) > relativeGate);
+  return loudnessOf(mean(relativeGated));
+};
+
+// 4x oversampling interpolator for true peak: windowed sinc, 12 taps per phase
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+const INTERPOLATION_PHASES = (() => {
+  const phases: Float32Array[] = [];
+  const half = TAPS_PER_PHASE / 2;
+  for (let p = 1; p < OVERSAMPLE; p++) {
+    const taps = new Float32Array(TAPS_PER_PHASE);
+    for (let k = 0; k < TAPS_PER_PHASE; k++) {
+      const t = k - half + 1 - p / OVERSAMPLE; // distance from the interpolated point, in input samples
+      const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 + 0.5 * Math.cos(Math.PI * t / half); // Hann
+      taps[k] = sinc * window;
+    }
+    phases.push(taps);
+  }
+  return phases;
+})();
+
+/**
+ * True peak (dBTP) via 4x oversampling.
+ * Inter-sample overs only happen next to loud samples, so quiet stretches are skipped to keep this fast.
+ */
+const truePeak = (buffer: AudioBuffer): number => {
+  let peak = 0;
+  const half = TAPS_PER_PHASE / 2;
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    let samplePeak = 0;
+    for (let i = 0; i < data.length; i++) samplePeak = Math.max(samplePeak, Math.abs(data[i]));
+    peak = Math.max(peak, samplePeak);
+
+    const threshold = samplePeak * 0.5;
+    for (let n = half; n < data.length - half; n++) {
+      if (Math.abs(data[n]) < threshold) continue;
+      for (const taps of INTERPOLATION_PHASES) {
+        let y = 0;
+        for (let k = 0; k < TAPS_PER_PHASE; k++) y += taps[k] * data[n - half + 1 + k];
+        peak = Math.max(peak, Math.abs(y));
+      }
+    }
+  }
+  return peak > 0 ? toDb(peak) : -Infinity;
+};
+
+/**
+ * Measures integrated loudness and true peak of a decoded track.
+ */
+export const measureLoudness = (buffer: AudioBuffer): LoudnessInfo => ({
+  integrated: integratedLoudness(buffer),
+  truePeak: truePeak(buffer),
+});
+
+/**
+ * Gain (dB) that moves a track toward the target loudness without pushing its true peak over the ceiling.
+ */
+export const normalizationGain = (measured: LoudnessInfo, settings: LoudnessSettings): number => {
+  // Silence or digital black: leave it alone
+  if (!isFinite(measured.integrated) || !isFinite(measured.truePeak)) return 0;
+  const wanted = settings.targetLufs - measured.integrated;
+  const headroom = settings.maxTruePeak - measured.truePeak;
+  return Math.min(wanted, headroom);
+};
+
+/**
+ * Applies a gain in dB to float channel data in place.
+ */
+export const applyGain = (channels: StereoChannels, gainDb: number) => {
+  if (gainDb === 0) return;
+  const g = Math.pow(10, gainDb / 20);
+  for (let i = 0; i < channels.left.length; i++) {
+    channels.left[i] *= g;
+    channels.right[i] *= g;
+  }
+};
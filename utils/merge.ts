@@ -0,0 +1,305 @@
+import {
+  CrossfadeSettings, DayPartSettings, DuckingSettings, ExportSettings, FillSettings, Language, LoudnessSettings,
+  MasterSettings, MasterStats, SilenceTrimSettings, SplitSettings, Track, TrackEffects, VibeType,
+} from '../types';
+import { StereoChannels, formatDuration } from './audio';
+import { DEFAULT_CROSSFADE } from './crossfade';
+import { activeEffects } from './effects';
+import { DEFAULT_DAY_PARTS, arrangeBlock, arrangeDay, dayPartsActive, orderedBlocks } from './dayparts';
+import { ExportEncoder } from './encoder';
+import { DEFAULT_EXPORT, exportFileType } from './exportSettings';
+import type { ExportSink } from './exportSink';
+import { DEFAULT_FILL, fillToDuration } from './fill';
+import { translations } from './i18n';
+import { buildId3Tag } from './id3';
+import { DEFAULT_MASTER, createMasterProcessor } from './limiter';
+import { DEFAULT_LOUDNESS } from './loudness';
+import { renderTimeline } from './mixer';
+import { prepareTrack } from './prepare';
+import { expandSchedule } from './schedule';
+import { DEFAULT_SILENCE_TRIM } from './silence';
+import { DEFAULT_SPLIT, MIN_PART_LIMIT, isValidSplit, maxPartSeconds, partFileName, splitSequence } from './split';
+import { DEFAULT_DUCKING, buildTimeline } from './timeline';
+import { TracklistEntry, timelineTracklist } from './tracklist';
+import { MAX_WAV_DATA_BYTES } from './wav';
+
+/**
+ * Everything a merge depends on. Plain data, so it can come from the app's state or from the command line.
+ */
+export interface MergeConfig {
+  tracks: Track[];
+  storeName: string;
+  vibe: VibeType;
+  language: Language; // of progress messages, album titles and part labels
+  date: string; // YYYY-MM-DD, for file names and titles
+  crossfade: CrossfadeSettings;
+  ducking: DuckingSettings;
+  loudness: LoudnessSettings;
+  silenceTrim: SilenceTrimSettings;
+  master: MasterSettings;
+  fill: FillSettings;
+  dayParts: DayPartSettings;
+  split: SplitSettings;
+  exportSettings: ExportSettings;
+}
+
+export const defaultMergeConfig = (tracks: Track[]): MergeConfig => ({
+  tracks,
+  storeName: 'My Store',
+  vibe: VibeType.RELAXED,
+  language: 'en',
+  date: new Date().toISOString().slice(0, 10),
+  crossfade: DEFAULT_CROSSFADE,
+  ducking: DEFAULT_DUCKING,
+  loudness: DEFAULT_LOUDNESS,
+  silenceTrim: DEFAULT_SILENCE_TRIM,
+  master: DEFAULT_MASTER,
+  fill: DEFAULT_FILL,
+  dayParts: DEFAULT_DAY_PARTS,
+  split: DEFAULT_SPLIT,
+  exportSettings: DEFAULT_EXPORT,
+});
+
+/**
+ * What the merge needs from where it runs: Web Audio and a worker in the browser, pure JS in Node.
+ */
+export interface MergePlatform {
+  /** The track's audio at `sampleRate`, or null when it has none. */
+  decode: (track: Track, sampleRate: number) => Promise<AudioBuffer | null>;
+  /** Runs a prepared track through its gain, fades, tempo change and EQ. */
+  applyEffects: (channels: StereoChannels, sampleRate: number, effects: TrackEffects) => Promise<StereoChannels>;
+  createEncoder: (settings: ExportSettings, totalSamples: number, signal?: AbortSignal) => ExportEncoder;
+  createSink: (fileName: string, mimeType: string, slot: number) => Promise<ExportSink>;
+}
+
+export interface MergeProgress {
+  status: 'decoding' | 'merging';
+  message: string;
+  progress: number; // 0 to 100
+}
+
+export interface MergeOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: MergeProgress) => void;
+  sink?: ExportSink; // Opened before the merge for a single-file export, e.g. from a save dialog
+}
+
+export interface MergedFile {
+  name: string;
+  blob: Blob | null; // null when it was written straight to a file
+  tracklist: TracklistEntry[]; // What plays when
+  master: MasterStats; // What the limiter did
+}
+
+export interface MergeResult {
+  files: MergedFile[];
+  updates: Record<string, Partial<Track>>; // Durations, trims and loudness learned while decoding
+}
+
+/**
+ * The order that actually gets merged: repeated to the target length in fill mode, with
+ * recurring announcements placed, or block after block with day parts.
+ */
+export const arrangeQueue = (
+  tracks: Track[],
+  durations: Record<string, number>,
+  { fill, dayParts, crossfade }: Pick<MergeConfig, 'fill' | 'dayParts' | 'crossfade'>
+): Track[] =>
+  dayPartsActive(dayParts)
+    ? arrangeDay(dayParts.blocks, tracks, durations, fill, crossfade)
+    : expandSchedule(fill.enabled ? fillToDuration(tracks, durations, fill, crossfade) : tracks, durations);
+
+const baseName = (config: MergeConfig) => `storecast_mix_${config.date}`;
+
+/**
+ * Name of the export when it is a single file, null when blocks or parts make it several.
+ */
+export const singleFileName = (config: MergeConfig): string | null =>
+  (dayPartsActive(config.dayParts) && config.dayParts.output === 'perBlock') || config.split.mode !== 'off'
+    ? null
+    : `${baseName(config)}.${exportFileType(config.exportSettings).extension}`;
+
+/**
+ * Decodes, processes, mixes and encodes the queue into one or more files.
+ *
+ * Pass 1 decodes every track once to learn its final length so the timeline can be laid out.
+ * Pass 2 mixes each file block by block, decoding a track again only while it plays, and
+ * writes the encoded chunks to a sink as they come, so nothing accumulates in memory.
+ */
+export const runMerge = async (config: MergeConfig, platform: MergePlatform, { signal, onProgress, sink: openedSink }: MergeOptions = {}): Promise<MergeResult> => {
+  const { tracks, exportSettings, storeName, date } = config;
+  const t = translations[config.language];
+  const progress = onProgress ?? (() => {});
+  const { extension, mimeType } = exportFileType(exportSettings);
+  const sampleRate = exportSettings.sampleRate;
+  let sink: ExportSink | null = openedSink ?? null;
+
+  const settings = { silenceTrim: config.silenceTrim, loudness: config.loudness, channels: exportSettings.channels };
+  const loadTrack = async (track: Track) => {
+    const buffer = await platform.decode(track, sampleRate);
+    if (!buffer) return null;
+    const prepared = prepareTrack(buffer, track, settings);
+    // After normalization, so a track's gain is relative to the others
+    if (track.effects && activeEffects(track.effects).length > 0) {
+      prepared.channels = await platform.applyEffects(prepared.channels, sampleRate, track.effects);
+    }
+    return prepared;
+  };
+
+  try {
+    const lengths: Record<string, number> = {};
+    const updates: Record<string, Partial<Track>> = {};
+
+    for (let i = 0; i < tracks.length; i++) {
+      const track = tracks[i];
+      progress({ status: 'decoding', message: t.processingTrack(i + 1, tracks.length, track.name), progress: (i / tracks.length) * 40 });
+
+      // Small delay to allow UI to update and GC to run
+      await new Promise(r => setTimeout(r, 50));
+      signal?.throwIfAborted();
+
+      const prepared = await loadTrack(track);
+      if (prepared) {
+        lengths[track.id] = prepared.channels.left.length;
+        updates[track.id] = { duration: prepared.duration, silenceTrim: prepared.silenceTrim, loudness: prepared.loudness };
+      }
+    }
+
+    const durations = Object.fromEntries(Object.entries(lengths).map(([id, length]) => [id, length / sampleRate]));
+    const analyzedTracks = new Map<string, Track>(tracks.map(track => [track.id, { ...track, ...updates[track.id] }]));
+    const useDayParts = dayPartsActive(config.dayParts);
+    const blocks = useDayParts && config.dayParts.output === 'perBlock' ? orderedBlocks(config.dayParts.blocks) : null;
+
+    const outputs = blocks
+      ? blocks.map(block => ({
+          name: `${baseName(config)}_${block.name.replace(/[\\/:*?"<>|]/g, '_')}`,
+          title: `${storeName} ${date} ${block.name}`,
+          album: t.vibes[block.vibe],
+          label: block.name + ': ',
+          sequence: arrangeBlock(block, tracks, durations, config.fill, config.crossfade),
+        }))
+      : [{
+          name: baseName(config),
+          title: `${storeName} ${date}`,
+          album: useDayParts ? [...new Set(orderedBlocks(config.dayParts.blocks).map(block => t.vibes[block.vibe]))].join(' / ') : t.vibes[config.vibe],
+          label: '',
+          sequence: arrangeQueue(tracks, durations, config),
+        }];
+    // Parts are cut between tracks, each is a complete file of its own
+    if (!isValidSplit(config.split)) throw new Error(t.splitLimitInvalid(MIN_PART_LIMIT));
+    const maxSeconds = maxPartSeconds(config.split, exportSettings);
+    const files = outputs.flatMap(output => {
+      const parts = splitSequence(output.sequence, durations, maxSeconds);
+      return parts.map((sequence, p) => parts.length === 1
+        ? { ...output, fileName: `${output.name}.${extension}` }
+        : {
+            ...output,
+            fileName: partFileName(output.name, p, parts.length, extension),
+            title: `${output.title} (${p + 1}/${parts.length})`,
+            label: output.label + t.partLabel(p + 1, parts.length) + ': ',
+            sequence,
+          });
+    });
+    const timelines = files.map(file => buildTimeline(file.sequence, lengths, sampleRate, config.crossfade, config.ducking));
+    // Checked before anything is written, rather than failing hours into a batch
+    if (exportSettings.format === 'wav') {
+      const tooLarge = files.find((_, f) => timelines[f].length * exportSettings.channels * exportSettings.bitDepth / 8 > MAX_WAV_DATA_BYTES);
+      if (tooLarge) throw new Error(t.wavTooLarge(tooLarge.fileName));
+    }
+    const merged: MergedFile[] = [];
+
+    for (let f = 0; f < files.length; f++) {
+      const file = files[f];
+      const timeline = timelines[f];
+      const encoder = platform.createEncoder(exportSettings, timeline.length, signal);
+      const master = createMasterProcessor(config.master, exportSettings);
+      const output = sink ?? await platform.createSink(file.fileName, mimeType, f);
+      sink = output;
+      const totalTime = formatDuration(timeline.length / timeline.sampleRate);
+
+      try {
+        // Where the encoder's output starts, after the tag
+        let streamStart = 0;
+        if (exportSettings.format === 'mp3') {
+          // Chapter per clip, so chapter-aware players can skip through the broadcast
+          const toMs = (samples: number) => samples / timeline.sampleRate * 1000;
+          const tag = buildId3Tag({
+            title: file.title,
+            artist: storeName,
+            album: file.album,
+            comment: timeline.clips.map(clip => `${formatDuration(clip.start / timeline.sampleRate)} ${clip.name}`).join('\n'),
+            chapters: timeline.clips.map(clip => ({ title: clip.name, start: toMs(clip.start), end: toMs(clip.start + clip.length) })),
+          });
+          await output.write(tag);
+          streamStart = tag.length;
+        }
+
+        const header = await encoder.ready;
+        if (header.length > 0) {
+          await output.write(header);
+        }
+
+        // The next block is mixed while the encoder works on the previous one
+        let encoding: Promise<void> = Promise.resolve();
+
+        await renderTimeline(
+          timeline,
+          async (clip) => {
+            const prepared = await loadTrack(analyzedTracks.get(clip.trackId)!);
+            if (!prepared) throw new Error(`Could not decode ${clip.name}`);
+            return prepared.channels;
+          },
+          async (block, position) => {
+            await encoding;
+            const end = position + block.left.length;
+            // The limiter holds back its look-ahead, so what comes out can be a little shorter than the block
+            const limited = master.process(block);
+            encoding = (limited.left.length > 0 ? encoder.encode(limited) : Promise.resolve(new Uint8Array(0))).then(async encoded => {
+              if (encoded.length > 0) {
+                await output.write(encoded);
+              }
+              progress({
+                status: 'merging',
+                message: file.label + t.mixingProgress(formatDuration(end / timeline.sampleRate), totalTime),
+                progress: 40 + ((f + end / timeline.length) / files.length) * 55,
+              });
+            });
+            // Errors surface at the next await, this only keeps an abort mid-decode from being reported as unhandled
+            encoding.catch(() => {});
+          },
+          { ducking: config.ducking, signal }
+        );
+        await encoding;
+
+        const tail = master.flush();
+        if (tail.left.length > 0) {
+          const encoded = await encoder.encode(tail);
+          if (encoded.length > 0) {
+            await output.write(encoded);
+          }
+        }
+
+        progress({ status: 'merging', message: file.label + t.statusEncoding, progress: 40 + ((f + 1) / files.length) * 55 });
+
+        const endBuf = await encoder.flush();
+        if (endBuf.length > 0) {
+          await output.write(endBuf);
+        }
+        const finalHeader = await encoder.finalHeader();
+        if (finalHeader.length > 0) {
+          await output.writeAt(streamStart, finalHeader);
+        }
+      } finally {
+        encoder.terminate();
+      }
+
+      merged.push({ name: output.name, blob: await output.close(), tracklist: timelineTracklist(timeline, analyzedTracks), master: master.stats() });
+      sink = null;
+    }
+
+    return { files: merged, updates };
+  } catch (e) {
+    await sink?.abort();
+    throw e;
+  }
+};
@@ -0,0 +1,206 @@
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+}
+
+export interface AudioMetadata extends AudioTags {
+  duration: number; // in seconds, 0 when the browser couldn't tell
+}
+
+const readBytes = async (file: Blob, start: number, end: number): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const ascii = (bytes: Uint8Array, start = 0, length = bytes.length - start) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const clean = (text: string | undefined) => text?.replace(/\0+$/, '').replace(/\0/g, ' / ').trim() || undefined;
+
+/**
+ * Asks the browser's media element for the length. It only reads the headers (and for MP3
+ * without a Xing header, estimates from the bitrate), so nothing is decoded.
+ */
+export const probeDuration = (file: Blob, timeoutMs = 10000): Promise<number> => new Promise(resolve => {
+  const audio = document.createElement('audio');
+  const url = URL.createObjectURL(file);
+  const done = (duration: number) => {
+    clearTimeout(timer);
+    audio.removeAttribute('src');
+    audio.load();
+    URL.revokeObjectURL(url);
+    resolve(Number.isFinite(duration) ? duration : 0);
+  };
+  const timer = setTimeout(() => done(0), timeoutMs);
+  audio.preload = 'metadata';
+  audio.onloadedmetadata = () => done(audio.duration);
+  audio.onerror = () => done(0);
+  audio.src = url;
+});
+
+// ID3v2.2 uses three letter frame ids, 2.3 and 2.4 four letter ones
+const ID3_FRAMES: Record<string, keyof AudioTags> = { TT2: 'title', TP1: 'artist', TIT2: 'title', TPE1: 'artist' };
+
+const decodeId3Text = (body: Uint8Array): string | undefined => {
+  const encoding = body[0];
+  let text = body.subarray(1);
+  if (encoding === 1 || encoding === 2) {
+    // UTF-16, with a BOM for encoding 1 and big endian without one for encoding 2
+    let littleEndian = encoding === 1;
+    if (text[0] === 0xff && text[1] === 0xfe) { littleEndian = true; text = text.subarray(2); }
+    else if (text[0] === 0xfe && text[1] === 0xff) { littleEndian = false; text = text.subarray(2); }
+    return clean(new TextDecoder(littleEndian ? 'utf-16le' : 'utf-16be').decode(text));
+  }
+  return clean(new TextDecoder(encoding === 3 ? 'utf-8' : 'latin1').decode(text));
+};
+
+const readId3v2 = async (file: Blob): Promise<AudioTags> => {
+  const header = await readBytes(file, 0, 10);
+  const version = header[3];
+  const syncsafe = (b: Uint8Array, i: number) => (b[i] << 21) | (b[i + 1] << 14) | (b[i + 2] << 7) | b[i + 3];
+  const end = 10 + syncsafe(header, 6);
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  const tags: AudioTags = {};
+
+  let position = 10;
+  if (version > 2 && header[5] & 0x40) {
+    // Extended header: 2.4 counts its own size field, 2.3 doesn't
+    const ext = await readBytes(file, 10, 14);
+    position += version === 4 ? syncsafe(ext, 0) : 4 + new DataView(ext.buffer).getUint32(0);
+  }
+
+  // Frames are read one at a time, so embedded cover art is skipped instead of loaded
+  while (position + headerLength <= end && (!tags.title || !tags.artist)) {
+    const frame = await readBytes(file, position, position + headerLength);
+    const id = ascii(frame, 0, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+    const size = version === 2 ? (frame[3] << 16) | (frame[4] << 8) | frame[5]
+      : version === 4 ? syncsafe(frame, 4)
+      : new DataView(frame.buffer).getUint32(4);
+    const field = ID3_FRAMES[id];
+    if (field) tags[field] = decodeId3Text(await readBytes(file, position + headerLength, position + headerLength + size));
+    position += headerLength + size;
+  }
+  return tags;
+};
+
+const readId3v1 = async (file: Blob): Promise<AudioTags> => {
+  if (file.size < 128) return {};
+  const tag = await readBytes(file, file.size - 128, file.size);
+  if (ascii(tag, 0, 3) !== 'TAG') return {};
+  const latin1 = new TextDecoder('latin1');
+  return { title: clean(latin1.decode(tag.subarray(3, 33))), artist: clean(latin1.decode(tag.subarray(33, 63))) };
+};
+
+// Vorbis comments, as found in FLAC, Ogg Vorbis and Opus: vendor string, then KEY=value pairs
+const parseVorbisComment = (bytes: Uint8Array, offset: number): AudioTags => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const utf8 = new TextDecoder();
+  const tags: AudioTags = {};
+  let p = offset + 4 + view.getUint32(offset, true);
+  const count = view.getUint32(p, true);
+  p += 4;
+  for (let i = 0; i < count && p + 4 <= bytes.length; i++) {
+    const length = view.getUint32(p, true);
+    const comment = utf8.decode(bytes.subarray(p + 4, p + 4 + length));
+    p += 4 + length;
+    const split = comment.indexOf('=');
+    const key = comment.slice(0, split).toUpperCase();
+    if (key === 'TITLE' && !tags.title) tags.title = clean(comment.slice(split + 1));
+    if (key === 'ARTIST' && !tags.artist) tags.artist = clean(comment.slice(split + 1));
+  }
+  return tags;
+};
+
+const readFlac = async (file: Blob): Promise<AudioTags> => {
+  let position = 4;
+  while (position + 4 <= file.size) {
+    const header = await readBytes(file, position, position + 4);
+    const type = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    if (type === 4) return parseVorbisComment(await readBytes(file, position + 4, position + 4 + length), 0);
+    if (header[0] & 0x80) break; // Last metadata block
+    position += 4 + length;
+  }
+  return {};
+};
+
+const readOgg = async (file: Blob): Promise<AudioTags> => {
+  // The comment header is the second packet, well inside the first pages
+  const head = await readBytes(file, 0, 65536);
+  const text = new TextDecoder('latin1').decode(head);
+  const vorbis = text.indexOf('\x03vorbis');
+  if (vorbis >= 0) return parseVorbisComment(head, vorbis + 7);
+  const opus = text.indexOf('OpusTags');
+  if (opus >= 0) return parseVorbisComment(head, opus + 8);
+  return {};
+};
+
+// MP4 boxes: 32-bit size (1 = 64-bit size follows), four letter type
+const findBox = async (file: Blob, start: number, end: number, type: string): Promise<{ start: number, end: number } | null> => {
+  let position = start;
+  while (position + 8 <= end) {
+    const header = await readBytes(file, position, position + 16);
+    const view = new DataView(header.buffer);
+    let size = view.getUint32(0);
+    let headerLength = 8;
+    if (size === 1) { size = Number(view.getBigUint64(8)); headerLength = 16; }
+    else if (size === 0) size = end - position;
+    if (size < headerLength) return null;
+    if (ascii(header, 4, 4) === type) return { start: position + headerLength, end: position + size };
+    position += size;
+  }
+  return null;
+};
+
+const MP4_ITEMS: Record<string, keyof AudioTags> = { '\xa9nam': 'title', '\xa9ART': 'artist' };
+
+const readMp4 = async (file: Blob): Promise<AudioTags> => {
+  let box: { start: number, end: number } | null = { start: 0, end: file.size };
+  for (const type of ['moov', 'udta', 'meta']) {
+    box = await findBox(file, box.start, box.end, type);
+    if (!box) return {};
+  }
+  // meta is a full box, 4 bytes of version and flags before its children
+  const ilst = await findBox(file, box.start + 4, box.end, 'ilst');
+  if (!ilst) return {};
+
+  const tags: AudioTags = {};
+  for (const [item, field] of Object.entries(MP4_ITEMS)) {
+    const found = await findBox(file, ilst.start, ilst.end, item);
+    const data = found && await findBox(file, found.start, found.end, 'data');
+    // data: 4 bytes of type, 4 of locale, then UTF-8 text
+    if (data) tags[field] = clean(new TextDecoder().decode(await readBytes(file, data.start + 8, data.end)));
+  }
+  return tags;
+};
+
+/**
+ * Reads title and artist from ID3 (MP3), Vorbis comments (FLAC, Ogg, Opus) or iTunes-style
+ * MP4/M4A metadata. Only the bytes holding the tags are read.
+ */
+export const readTags = async (file: Blob): Promise<AudioTags> => {
+  const magic = await readBytes(file, 0, 12);
+  if (ascii(magic, 0, 3) === 'ID3') {
+    const tags = await readId3v2(file);
+    return tags.title || tags.artist ? tags : readId3v1(file);
+  }
+  if (ascii(magic, 0, 4) === 'fLaC') return readFlac(file);
+  if (ascii(magic, 0, 4) === 'OggS') return readOgg(file);
+  if (ascii(magic, 4, 4) === 'ftyp') return readMp4(file);
+  return readId3v1(file);
+};
+
+export const probeAudioFile = async (file: File): Promise<AudioMetadata> => {
+  const [duration, tags] = await Promise.all([
+    probeDuration(file),
+    // Broken or unusual tags shouldn't stop the file from being added
+    readTags(file).catch((e): AudioTags => { console.warn('Could not read tags of', file.name, e); return {}; }),
+  ]);
+  return { duration, ...tags };
+};
+
+/**
+ * Display name from the tags, falling back to what the track is already called.
+ */
+export const tagLabel = (tags: AudioTags, fallback: string): string =>
+  tags.title ? (tags.artist ? `${tags.artist} - ${tags.title}` : tags.title) : fallback;
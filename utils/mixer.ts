@@ -0,0 +1,95 @@
+import { DuckingSettings, Timeline, TimelineClip } from '../types';
+import { StereoChannels } from './audio';
+import { fadeGain } from './crossfade';
+
+/**
+ * How much (0..1) of the duck depth applies at a given sample.
+ * Music starts going down `attack` before a voiceover and comes back over `release` after it.
+ */
+const duckDepth = (position: number, regions: Timeline['duckRegions'], attack: number, release: number): number => {
+  let depth = 0;
+  for (const { start, end } of regions) {
+    if (position < start - attack || position >= end + release) continue;
+    if (position < start) depth = Math.max(depth, attack > 0 ? (position - (start - attack)) / attack : 1);
+    else if (position < end) return 1;
+    else depth = Math.max(depth, release > 0 ? 1 - (position - end) / release : 0);
+  }
+  return depth;
+};
+
+const fadeAt = (clip: TimelineClip, offset: number): number => {
+  let gain = 1;
+  const { fadeIn, fadeOut } = clip;
+  if (fadeIn && offset < fadeIn.length) {
+    gain *= fadeGain(fadeIn.curve, (offset + 0.5) / fadeIn.length, 'in');
+  }
+  if (fadeOut && offset >= clip.length - fadeOut.length) {
+    gain *= fadeGain(fadeOut.curve, (offset - (clip.length - fadeOut.length) + 0.5) / fadeOut.length, 'out');
+  }
+  return gain;
+};
+
+export interface RenderOptions {
+  ducking: DuckingSettings;
+  signal?: AbortSignal;
+  blockSize?: number; // in samples, defaults to 5 seconds
+}
+
+/**
+ * Mixes a timeline block by block.
+ *
+ * Clip audio is only requested when the playhead reaches a clip and dropped as soon as it
+ * has played, so at most the few overlapping clips are held in memory at once.
+ * Each block is a fresh allocation that `onBlock` may keep or transfer.
+ */
+export const renderTimeline = async (
+  timeline: Timeline,
+  loadClip: (clip: TimelineClip) => Promise<StereoChannels>,
+  onBlock: (block: StereoChannels, position: number) => Promise<void> | void,
+  { ducking, signal, blockSize = timeline.sampleRate * 5 }: RenderOptions
+) => {
+  const { sampleRate, clips, duckRegions } = timeline;
+  const duckGain = Math.pow(10, -ducking.amount / 20);
+  const attack = Math.round(ducking.attack * sampleRate);
+  const release = Math.round(ducking.release * sampleRate);
+  const active = new Map<TimelineClip, StereoChannels>();
+  let next = 0;
+
+  for (let position = 0; position < timeline.length; position += blockSize) {
+    signal?.throwIfAborted();
+    const blockEnd = Math.min(position + blockSize, timeline.length);
+    const block: StereoChannels = {
+      left: new Float32Array(blockEnd - position),
+      right: new Float32Array(blockEnd - position),
+    };
+
+    while (next < clips.length && clips[next].start < blockEnd) {
+      active.set(clips[next], await loadClip(clips[next]));
+      next++;
+    }
+
+    // Only the voiceovers near this block can affect it
+    const regions = duckRegions.filter(r => r.start - attack < blockEnd && r.end + release > position);
+
+    for (const [clip, channels] of active) {
+      const from = Math.max(position, clip.start);
+      const to = Math.min(blockEnd, clip.start + Math.min(clip.length, channels.left.length));
+      const ducked = clip.layer === 'main' && regions.length > 0;
+
+      for (let p = from; p < to; p++) {
+        const offset = p - clip.start;
+        let gain = fadeAt(clip, offset);
+        if (ducked) {
+          const depth = duckDepth(p, regions, attack, release);
+          if (depth > 0) gain *= Math.pow(duckGain, depth);
+        }
+        block.left[p - position] += channels.left[offset] * gain;
+        block.right[p - position] += channels.right[offset] * gain;
+      }
+
+      if (clip.start + clip.length <= blockEnd) active.delete(clip);
+    }
+
+    await onBlock(block, position);
+  }
+};
@@ -0,0 +1,51 @@
+import { LoudnessInfo, LoudnessSettings, SilenceTrimInfo, SilenceTrimSettings, Track } from '../types';
+import { StereoChannels, pcmBuffer, sliceChannels } from './audio';
+import { downmix } from './downmix';
+import { applyGain, measureLoudness, normalizationGain } from './loudness';
+import { trimSilence } from './silence';
+
+export interface PrepareSettings {
+  silenceTrim: SilenceTrimSettings;
+  loudness: LoudnessSettings;
+  channels?: number; // Of the export; 1 folds surround sources straight to mono
+}
+
+export interface PreparedTrack {
+  channels: StereoChannels;
+  duration: number; // in seconds, of the source before trimming
+  silenceTrim?: SilenceTrimInfo;
+  loudness?: LoudnessInfo;
+}
+
+/**
+ * Turns a decoded track into the samples that go into the mix: cut to its in/out points,
+ * silence trimmed and loudness normalized.
+ * Deterministic for the same settings, so the planning and rendering passes agree on lengths.
+ */
+export const prepareTrack = (buffer: AudioBuffer, track: Track, settings: PrepareSettings): PreparedTrack => {
+  let channels = downmix(buffer, track.downmix, settings.channels === 1 ? 'mono' : 'stereo');
+  // Surround sources are measured as they will sound once downmixed, so a centre-only track gets the level of the dialog
+  const measured = buffer.numberOfChannels > 2 ? pcmBuffer([channels.left, channels.right], buffer.sampleRate) : buffer;
+  const prepared: PreparedTrack = { channels, duration: buffer.duration };
+
+  if (track.inPoint !== undefined || track.outPoint !== undefined) {
+    const start = Math.round((track.inPoint ?? 0) * buffer.sampleRate);
+    const end = Math.round((track.outPoint ?? buffer.duration) * buffer.sampleRate);
+    channels = sliceChannels(channels, Math.min(start, buffer.length), Math.min(Math.max(end, start), buffer.length));
+  }
+
+  if (settings.silenceTrim.enabled && !track.keepSilence) {
+    const trimmed = trimSilence(channels, buffer.sampleRate, settings.silenceTrim);
+    channels = trimmed.channels;
+    prepared.silenceTrim = trimmed.info;
+  }
+
+  if (settings.loudness.enabled) {
+    const info = track.loudness ?? measureLoudness(measured);
+    prepared.loudness = info;
+    applyGain(channels, normalizationGain(info, settings.loudness));
+  }
+
+  prepared.channels = channels;
+  return prepared;
+};
@@ -0,0 +1,85 @@
+import { CrossfadeSettings, DuckingSettings, Track } from '../types';
+import { StereoChannels, sliceChannels } from './audio';
+import { resolveTransition } from './crossfade';
+import { renderTimeline } from './mixer';
+import { buildTimeline } from './timeline';
+
+/**
+ * Loudest sample per bin across all channels, for drawing a waveform `bins` pixels wide.
+ */
+export const computePeaks = (buffer: AudioBuffer, bins: number): Float32Array => {
+  const peaks = new Float32Array(bins);
+  const perBin = buffer.length / bins;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let bin = 0; bin < bins; bin++) {
+      const end = Math.min(data.length, Math.floor((bin + 1) * perBin));
+      let peak = peaks[bin];
+      for (let i = Math.floor(bin * perBin); i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+      peaks[bin] = peak;
+    }
+  }
+  return peaks;
+};
+
+export interface PreviewSide {
+  track: Track;
+  channels: StereoChannels; // Prepared the same way the merge prepares it
+}
+
+/**
+ * Mixes the last `seconds` of one track into the first `seconds` of the next, through the
+ * same timeline and mixer as the export, so what you hear is what the broadcast will do.
+ */
+export const renderTransition = async (
+  from: PreviewSide,
+  to: PreviewSide,
+  sampleRate: number,
+  crossfade: CrossfadeSettings,
+  ducking: DuckingSettings,
+  seconds = 10
+): Promise<StereoChannels> => {
+  const fromLength = from.channels.left.length;
+  const toLength = to.channels.left.length;
+
+  // Keep enough of both sides that the fade is as long as it is between the full tracks
+  const rule = resolveTransition(crossfade, from.track, to.track);
+  const fade = Math.min(Math.round(rule.duration * sampleRate), Math.floor(fromLength / 2), Math.floor(toLength / 2));
+  const excerpt = Math.max(Math.round(seconds * sampleRate), 2 * fade);
+  const clips: Record<string, StereoChannels> = {
+    [from.track.id]: sliceChannels(from.channels, Math.max(0, fromLength - excerpt), fromLength),
+    [to.track.id]: sliceChannels(to.channels, 0, Math.min(toLength, excerpt)),
+  };
+
+  const lengths = Object.fromEntries(Object.entries(clips).map(([id, channels]) => [id, channels.left.length]));
+  const timeline = buildTimeline([from.track, to.track], lengths, sampleRate, crossfade, ducking);
+  const mix: StereoChannels = { left: new Float32Array(timeline.length), right: new Float32Array(timeline.length) };
+
+  await renderTimeline(
+    timeline,
+    async (clip) => clips[clip.trackId],
+    (block, position) => {
+      mix.left.set(block.left, position);
+      mix.right.set(block.right, position);
+    },
+    { ducking }
+  );
+  return mix;
+};
+
+/**
+ * Plays rendered channels once through the context's output.
+ */
+export const playChannels = (ctx: AudioContext, channels: StereoChannels, sampleRate: number): AudioBufferSourceNode => {
+  const buffer = ctx.createBuffer(2, channels.left.length, sampleRate);
+  buffer.copyToChannel(channels.left, 0);
+  buffer.copyToChannel(channels.right, 1);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start();
+  return source;
+};
@@ -0,0 +1,172 @@
+import { CrossfadeSettings, DayPartSettings, DuckingSettings, ExportSettings, FillSettings, LiveSettings, LoudnessSettings, MasterSettings, SilenceTrimSettings, SplitSettings, Track, VibeType } from '../types';
+import { decodeAudio } from './audio';
+import { encodeWavSamples, wavHeader } from './wav';
+import { createZip, readZip } from './zip';
+
+export interface StoredTrack extends Omit<Track, 'buffer'> {
+  generatedAudio?: Blob; // WAV of a generated track, AudioBuffers can't go into IndexedDB
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  updatedAt: number; // ms since epoch
+  storeName: string;
+  vibe: VibeType;
+  tracks: StoredTrack[];
+  exportSettings: ExportSettings;
+  templateValues?: Record<string, string>; // Values for announcement placeholders, e.g. closingTime
+  dayParts?: DayPartSettings;
+  split?: SplitSettings;
+  master?: MasterSettings;
+  live?: LiveSettings;
+  crossfade?: CrossfadeSettings; // With the per-transition overrides, keyed by the ids the tracks keep
+  ducking?: DuckingSettings;
+  loudness?: LoudnessSettings;
+  silenceTrim?: SilenceTrimSettings;
+  fill?: FillSettings;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  trackCount: number;
+}
+
+const DB_NAME = 'storecast';
+const STORE = 'projects';
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id' });
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await request(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+};
+
+export const newProjectId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * Saved projects, most recently saved first. The audio Blobs stay on disk until a project is opened.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await withStore<Project[]>('readonly', store => store.getAll());
+  return projects
+    .map(({ id, name, updatedAt, tracks }) => ({ id, name, updatedAt, trackCount: tracks.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<Project> => {
+  const project = await withStore<Project | undefined>('readonly', store => store.get(id));
+  if (!project) throw new Error('Project not found');
+  return project;
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await withStore('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const duplicateProject = async (id: string, name: string): Promise<Project> => {
+  const copy = { ...await loadProject(id), id: newProjectId(), name, updatedAt: Date.now() };
+  await saveProject(copy);
+  return copy;
+};
+
+const encodeWav = (buffer: AudioBuffer): Blob => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const samples = encodeWavSamples(channels, 16);
+  return new Blob([wavHeader(samples.length, buffer.sampleRate, channels.length, 16), samples], { type: 'audio/wav' });
+};
+
+/**
+ * Queue tracks in a form IndexedDB can hold. Generated audio, such as an AI intro that cost an
+ * API call, is kept as WAV so it doesn't have to be generated again.
+ */
+export const storeTracks = (tracks: Track[]): StoredTrack[] =>
+  tracks.map(({ buffer, ...track }) => buffer && !track.file ? { ...track, generatedAudio: encodeWav(buffer) } : track);
+
+export const restoreTracks = (tracks: StoredTrack[], ctx: BaseAudioContext): Promise<Track[]> =>
+  Promise.all(tracks.map(async ({ generatedAudio, ...track }) =>
+    generatedAudio ? { ...track, buffer: await decodeAudio(generatedAudio, ctx) } : track
+  ));
+
+// Portable project file: a zip with project.json and the audio next to it
+const MANIFEST = 'project.json';
+const FORMAT_VERSION = 1;
+
+interface ManifestTrack extends Omit<StoredTrack, 'file' | 'generatedAudio'> {
+  audio: string; // Path of the audio inside the zip
+  fileName: string | null; // Original file name, null for generated audio
+  mimeType: string;
+}
+
+interface Manifest extends Omit<Project, 'id' | 'tracks'> {
+  version: number;
+  tracks: ManifestTrack[];
+}
+
+/**
+ * Packs a project and all of its audio into a single zip that can be opened on another computer.
+ */
+export const exportProjectFile = async (project: Project): Promise<Blob> => {
+  const audio: { name: string, data: Blob }[] = [];
+  const tracks: ManifestTrack[] = project.tracks.map(({ file, generatedAudio, ...track }, i) => {
+    const data = file ?? generatedAudio;
+    if (!data) throw new Error(`No audio stored for ${track.name}`);
+    // Numbered so two files with the same name can't collide
+    const path = `audio/${String(i + 1).padStart(3, '0')}-${file ? file.name.replace(/[\\/]/g, '_') : 'generated.wav'}`;
+    audio.push({ name: path, data });
+    return { ...track, audio: path, fileName: file?.name ?? null, mimeType: data.type };
+  });
+
+  const { id: _id, tracks: _tracks, ...info } = project;
+  const manifest: Manifest = { version: FORMAT_VERSION, ...info, tracks };
+  return createZip([
+    { name: MANIFEST, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) },
+    ...audio,
+  ]);
+};
+
+/**
+ * Reads a project file written by `exportProjectFile`. The result gets a new id, so importing
+ * the same file twice gives two projects instead of overwriting one.
+ */
+export const importProjectFile = async (zip: Blob): Promise<Project> => {
+  const files = await readZip(zip);
+  const manifestFile = files.get(MANIFEST);
+  if (!manifestFile) throw new Error('Not a project file');
+  const { version, tracks, ...info }: Manifest = JSON.parse(await manifestFile.text());
+  if (version > FORMAT_VERSION) throw new Error('Project file was made by a newer version');
+
+  return {
+    ...info,
+    id: newProjectId(),
+    updatedAt: Date.now(),
+    tracks: tracks.map(({ audio, fileName, mimeType, ...track }) => {
+      const data = files.get(audio);
+      if (!data) throw new Error(`Missing audio for ${track.name}`);
+      const typed = data.slice(0, data.size, mimeType);
+      return fileName !== null
+        ? { ...track, file: new File([typed], fileName, { type: mimeType }) }
+        : { ...track, file: null, generatedAudio: typed };
+    }),
+  };
+};
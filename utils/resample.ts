@@ -0,0 +1,46 @@
+// Taps on each side of the output sample; enough to keep aliasing well below the noise of an MP3
+const HALF_TAPS = 16;
+// Steps per sample of the kernel table, between them the kernel is interpolated
+const TABLE_STEPS = 512;
+
+const sinc = (x: number) => x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+
+/**
+ * Converts the sample rate with a Blackman-windowed sinc filter, for where there is no
+ * OfflineAudioContext to do it. Going down, the cutoff drops to the new Nyquist frequency.
+ */
+export const resampleChannels = (channels: Float32Array[], from: number, to: number): Float32Array[] => {
+  if (from === to) return channels;
+  const ratio = from / to;
+  const cutoff = Math.min(1, 1 / ratio);
+  const reach = Math.ceil(HALF_TAPS / cutoff);
+
+  // One side of the symmetric kernel, looked up instead of evaluating trig per tap
+  const kernel = new Float32Array(reach * TABLE_STEPS + 2);
+  for (let k = 0; k < kernel.length; k++) {
+    const distance = k / TABLE_STEPS;
+    const window = distance > reach ? 0 : 0.42 + 0.5 * Math.cos(Math.PI * distance / reach) + 0.08 * Math.cos(2 * Math.PI * distance / reach);
+    kernel[k] = cutoff * sinc(cutoff * distance) * window;
+  }
+
+  return channels.map(input => {
+    const output = new Float32Array(Math.ceil(input.length / ratio));
+    for (let i = 0; i < output.length; i++) {
+      const center = i * ratio;
+      const first = Math.max(0, Math.floor(center) - reach + 1);
+      const last = Math.min(input.length - 1, Math.floor(center) + reach);
+      let sum = 0;
+      let weights = 0;
+      for (let j = first; j <= last; j++) {
+        const position = Math.abs(j - center) * TABLE_STEPS;
+        const k = Math.floor(position);
+        const weight = kernel[k] + (kernel[k + 1] - kernel[k]) * (position - k);
+        sum += input[j] * weight;
+        weights += weight;
+      }
+      // Normalising by the weights keeps DC at unity near the edges, where taps fall off the end
+      output[i] = weights !== 0 ? sum / weights : 0;
+    }
+    return output;
+  });
+};
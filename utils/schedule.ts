@@ -0,0 +1,50 @@
+import { RecurrenceRule, Track } from '../types';
+import { isOverlay } from './timeline';
+
+export const DEFAULT_RECURRENCE: RecurrenceRule = { mode: 'minutes', every: 20 };
+
+export const isRecurring = (track: Track): boolean => track.type === 'voiceover' && !!track.recurrence && track.recurrence.every > 0;
+
+/**
+ * Expands the queue into the order that actually gets merged.
+ *
+ * Recurring announcements leave their queue slot and are inserted between songs instead:
+ * after every N songs, or at the first song boundary once another N minutes have played.
+ * Nothing is inserted after the last song.
+ */
+export const expandSchedule = (tracks: Track[], durations: Record<string, number>): Track[] => {
+  const recurring = tracks.filter(isRecurring);
+  if (recurring.length === 0) return tracks;
+
+  const base = tracks.filter(t => !isRecurring(t));
+  const lastSong = base.map(t => t.type).lastIndexOf('music');
+  const nextDue = new Map(recurring.map(t => [t.id, t.recurrence!.every * 60]));
+  const sequence: Track[] = [];
+  let songs = 0;
+  let elapsed = 0; // seconds, ignoring crossfade overlaps
+
+  const play = (track: Track) => {
+    sequence.push(track);
+    if (!isOverlay(track)) elapsed += durations[track.id] ?? 0;
+  };
+
+  base.forEach((track, index) => {
+    play(track);
+    if (track.type !== 'music' || index >= lastSong) return;
+    songs++;
+
+    for (const announcement of recurring) {
+      const rule = announcement.recurrence!;
+      if (rule.mode === 'songs') {
+        if (songs % rule.every === 0) play(announcement);
+      } else if (elapsed >= nextDue.get(announcement.id)!) {
+        play(announcement);
+        let due = nextDue.get(announcement.id)!;
+        while (due <= elapsed) due += rule.every * 60;
+        nextDue.set(announcement.id, due);
+      }
+    }
+  });
+
+  return sequence;
+};
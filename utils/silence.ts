@@ -0,0 +1,52 @@
+import { SilenceTrimInfo, SilenceTrimSettings } from '../types';
+import { StereoChannels } from './audio';
+
+export const DEFAULT_SILENCE_TRIM: SilenceTrimSettings = {
+  enabled: true,
+  thresholdDb: -50,
+  minDuration: 0.5,
+};
+
+/**
+ * Finds leading and trailing silence in a track.
+ * A sample counts as silent when every channel stays below the threshold; runs shorter
+ * than the minimum duration are kept so short musical pauses survive.
+ */
+export const detectSilence = (channels: StereoChannels, sampleRate: number, settings: SilenceTrimSettings): { start: number, end: number } => {
+  const threshold = Math.pow(10, settings.thresholdDb / 20);
+  const { left, right } = channels;
+  const length = left.length;
+  const isLoud = (i: number) => Math.abs(left[i]) >= threshold || Math.abs(right[i]) >= threshold;
+
+  let start = 0;
+  while (start < length && !isLoud(start)) start++;
+
+  // Entirely silent: leave it as is rather than dropping the whole track
+  if (start === length) return { start: 0, end: length };
+
+  let end = length;
+  while (end > start && !isLoud(end - 1)) end--;
+
+  const minSamples = Math.round(settings.minDuration * sampleRate);
+  return {
+    start: start >= minSamples ? start : 0,
+    end: length - end >= minSamples ? end : length,
+  };
+};
+
+/**
+ * Cuts leading and trailing silence off a track and reports how much was removed, in seconds.
+ */
+export const trimSilence = (channels: StereoChannels, sampleRate: number, settings: SilenceTrimSettings): { channels: StereoChannels, info: SilenceTrimInfo } => {
+  const { start, end } = detectSilence(channels, sampleRate, settings);
+  return {
+    channels: {
+      left: channels.left.subarray(start, end),
+      right: channels.right.subarray(start, end),
+    },
+    info: {
+      start: start / sampleRate,
+      end: (channels.left.length - end) / sampleRate,
+    },
+  };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { Track } from '../types';
+import { DEFAULT_SPLIT, isValidSplit, splitSequence } from './split';
+
+const track = (id: string, type: Track['type'] = 'music', overlay = false): Track => ({ id, file: null, name: id, duration: 60, type, overlay });
+
+describe('splitSequence', () => {
+  it('moves an overlay into the part of the track it plays over', () => {
+    const sequence = [track('a'), track('b'), track('v', 'voiceover', true), track('c'), track('w', 'voiceover', true)];
+    const durations = { a: 60, b: 60, c: 60, v: 10, w: 10 };
+    expect(splitSequence(sequence, durations, 120).map(part => part.map(t => t.id))).toEqual([['a', 'b'], ['v', 'c', 'w']]);
+  });
+});
+
+describe('isValidSplit', () => {
+  it('takes limits of at least one minute or megabyte as they are', () => {
+    expect(isValidSplit({ ...DEFAULT_SPLIT, mode: 'minutes', maxMinutes: 1 })).toBe(true);
+    expect(isValidSplit({ ...DEFAULT_SPLIT, mode: 'megabytes', maxMegabytes: 2.5 })).toBe(true);
+  });
+
+  it('rejects small, empty and missing limits of the chosen mode only', () => {
+    expect(isValidSplit({ ...DEFAULT_SPLIT, mode: 'minutes', maxMinutes: 0.2 })).toBe(false);
+    expect(isValidSplit({ ...DEFAULT_SPLIT, mode: 'minutes', maxMinutes: NaN })).toBe(false);
+    expect(isValidSplit({ ...DEFAULT_SPLIT, mode: 'megabytes', maxMegabytes: null as unknown as number })).toBe(false);
+    expect(isValidSplit({ ...DEFAULT_SPLIT, mode: 'off', maxMinutes: 0 })).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { ExportSettings, SplitSettings, Track } from '../types';
+import { isOverlay } from './timeline';
+
+export const DEFAULT_SPLIT: SplitSettings = { mode: 'off', maxMinutes: 60, maxMegabytes: 100 };
+
+// Smallest part limit, in minutes or MB; below that the parts are mostly tags and silence
+export const MIN_PART_LIMIT = 1;
+
+// Upper end of LAME's -V0 … -V9 bitrate ranges in kbps, so a VBR part doesn't come out over the limit
+const VBR_MAX_KBPS = [260, 250, 210, 195, 185, 150, 130, 120, 105, 85];
+
+// Room for the ID3 tag with its chapters and tracklist, and for the encoder's rounding
+const SIZE_MARGIN = 0.97;
+
+/**
+ * Bytes of encoded audio per second of mix with these settings. Exact for WAV and CBR, an upper bound for VBR.
+ */
+export const bytesPerSecond = (settings: ExportSettings): number => {
+  if (settings.format === 'wav') return settings.sampleRate * settings.channels * settings.bitDepth / 8;
+  const kbps = settings.mp3Mode === 'vbr' ? VBR_MAX_KBPS[Math.min(9, Math.max(0, Math.round(settings.vbrQuality)))] : settings.bitrate;
+  return kbps * 1000 / 8;
+};
+
+/**
+ * Whether the limit of the chosen mode can be split by. Not split at all is always fine.
+ */
+export const isValidSplit = (split: SplitSettings): boolean => {
+  if (split.mode === 'off') return true;
+  const limit = split.mode === 'minutes' ? split.maxMinutes : split.maxMegabytes;
+  return Number.isFinite(limit) && limit >= MIN_PART_LIMIT;
+};
+
+/**
+ * Longest a part may run, in seconds, or Infinity when the export isn't split. Expects a valid limit.
+ */
+export const maxPartSeconds = (split: SplitSettings, settings: ExportSettings): number => {
+  if (split.mode === 'minutes') return split.maxMinutes * 60;
+  if (split.mode === 'megabytes') return split.maxMegabytes * 1e6 * SIZE_MARGIN / bytesPerSecond(settings);
+  return Infinity;
+};
+
+/**
+ * Cuts the merge order into parts that each stay under the limit, only ever between tracks.
+ * Each part is mixed on its own, so a crossfade across a cut is lost and every part starts and
+ * ends cleanly. Crossfade overlaps are ignored when measuring, which errs on the short side.
+ * Overlaid voiceovers stay in the part of the track they play over, and a single track longer
+ * than the limit gets a part to itself.
+ */
+export const splitSequence = (sequence: Track[], durations: Record<string, number>, maxSeconds: number): Track[][] => {
+  if (!Number.isFinite(maxSeconds)) return [sequence];
+  const parts: Track[][] = [];
+  let current: Track[] = [];
+  // Overlays play over the track after them, so they wait to go into that track's part
+  let pending: Track[] = [];
+  let length = 0;
+
+  for (const track of sequence) {
+    if (isOverlay(track)) {
+      pending.push(track);
+      continue;
+    }
+    const duration = durations[track.id] ?? 0;
+    if (current.length > 0 && duration > 0 && length + duration > maxSeconds) {
+      parts.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(...pending, track);
+    pending = [];
+    length += duration;
+  }
+  // Overlays at the very end have no track to play over; they stay with the last part as before
+  current.push(...pending);
+  if (current.length > 0) parts.push(current);
+  return parts;
+};
+
+/**
+ * File name of part `index` (from 0), e.g. mix_part01.mp3. Padded so the parts sort in order.
+ */
+export const partFileName = (baseName: string, index: number, count: number, extension: string): string =>
+  `${baseName}_part${String(index + 1).padStart(Math.max(2, String(count).length), '0')}.${extension}`;
@@ -0,0 +1,84 @@
+import { AnnouncementTemplate } from '../types';
+
+export const BUILT_IN_TEMPLATES: AnnouncementTemplate[] = [
+  {
+    id: 'promotion',
+    builtIn: true,
+    name: { en: 'Daily promotion', zh: '每日促销' },
+    text: {
+      en: "Good news for shoppers at {storeName}! Today only, enjoy {discount} off {product}. Don't miss out!",
+      zh: '{storeName}的顾客朋友们好消息！今日限定，{product}享受{discount}优惠，千万不要错过！',
+    },
+  },
+  {
+    id: 'membership',
+    builtIn: true,
+    name: { en: 'Membership sign-up', zh: '会员招募' },
+    text: {
+      en: 'Become a {storeName} member today! Sign up at the checkout to get {discount} off this purchase, plus exclusive member offers.',
+      zh: '欢迎加入{storeName}会员！在收银台即可注册，本次消费立享{discount}优惠，更有会员专属福利。',
+    },
+  },
+  {
+    id: 'lost-child',
+    builtIn: true,
+    name: { en: 'Lost child', zh: '寻找走失儿童' },
+    text: {
+      en: 'Attention please. We are looking for a child named {childName}, wearing {description}. If you see this child, please bring them to the service desk. Thank you.',
+      zh: '请注意，我们正在寻找一位名叫{childName}的小朋友，穿着{description}。如果您看到这位小朋友，请带到服务台。谢谢！',
+    },
+  },
+  {
+    id: 'closing',
+    builtIn: true,
+    name: { en: 'Closing in 15 minutes', zh: '15 分钟后打烊' },
+    text: {
+      en: 'Dear customers, {storeName} will be closing in 15 minutes, at {closingTime}. Please bring your final purchases to the checkout. Thank you for shopping with us.',
+      zh: '亲爱的顾客朋友们，{storeName}将在15分钟后，也就是{closingTime}打烊。请您抓紧时间选购并到收银台结账。感谢您的光临！',
+    },
+  },
+  {
+    id: 'holiday',
+    builtIn: true,
+    name: { en: 'Holiday greeting', zh: '节日问候' },
+    text: {
+      en: 'Happy {holiday} from all of us at {storeName}! Thank you for celebrating with us.',
+      zh: '{storeName}全体员工祝您{holiday}快乐！感谢您的一路相伴。',
+    },
+  },
+];
+
+export const DEFAULT_TEMPLATE_VALUES: Record<string, string> = {
+  closingTime: '22:00',
+  discount: '20%',
+};
+
+// Letters in any script, so a custom template can use {店名} as well as {storeName}
+const PLACEHOLDER = /\{([\p{L}\p{N}_]+)\}/gu;
+
+/**
+ * Placeholder names used in a template text, in order of first appearance.
+ */
+export const templatePlaceholders = (text: string): string[] =>
+  [...new Set(Array.from(text.matchAll(PLACEHOLDER), match => match[1]))];
+
+/**
+ * Fills the placeholders. Ones without a value are left as they are, so they stand out when reviewing the script.
+ */
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(PLACEHOLDER, (placeholder, name: string) => values[name]?.trim() || placeholder);
+
+// Custom templates belong to this browser, like the API key
+const STORAGE_KEY = 'announcement_templates';
+
+export const loadCustomTemplates = (): AnnouncementTemplate[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: AnnouncementTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
@@ -0,0 +1,103 @@
+import { CrossfadeSettings, DuckingSettings, Timeline, TimelineClip, Track } from '../types';
+import { resolveTransition } from './crossfade';
+
+export const DEFAULT_DUCKING: DuckingSettings = {
+  amount: 12,
+  attack: 0.5,
+  release: 1.5,
+  leadIn: 2,
+};
+
+/**
+ * Overlaid voiceovers sit on top of the music rather than taking their own slot in the sequence.
+ */
+export const isOverlay = (track: Track): boolean => track.type === 'voiceover' && !!track.overlay;
+
+/**
+ * The closest track before `index` that plays in the main sequence, if any.
+ */
+export const previousMainTrack = (tracks: Track[], index: number): Track | null => {
+  for (let i = index - 1; i >= 0; i--) {
+    if (!isOverlay(tracks[i])) return tracks[i];
+  }
+  return null;
+};
+
+/**
+ * Lays the queue out on a sample-accurate timeline.
+ *
+ * Main tracks follow each other, overlapping where the crossfade rule asks for it.
+ * An overlaid voiceover is anchored to the main track that follows it in the queue and starts
+ * `leadIn` seconds into it; several voiceovers on the same anchor play one after another.
+ */
+export const buildTimeline = (
+  tracks: Track[],
+  lengths: Record<string, number>,
+  sampleRate: number,
+  crossfade: CrossfadeSettings,
+  ducking: DuckingSettings
+): Timeline => {
+  const clips: TimelineClip[] = [];
+  const pendingOverlays: Track[] = [];
+  const leadIn = Math.round(ducking.leadIn * sampleRate);
+  let previous: { track: Track, clip: TimelineClip } | null = null;
+  let cursor = 0;
+
+  const placeOverlays = (anchor: number) => {
+    let start = anchor;
+    for (const track of pendingOverlays) {
+      const length = lengths[track.id] ?? 0;
+      const rule = crossfade.voiceover;
+      const fadeLength = Math.min(Math.round(rule.duration * sampleRate), Math.floor(length / 2));
+      const fade = fadeLength > 0 ? { length: fadeLength, curve: rule.curve } : null;
+      clips.push({ trackId: track.id, name: track.name, type: track.type, layer: 'overlay', start, length, fadeIn: fade, fadeOut: fade });
+      start += length;
+    }
+    pendingOverlays.length = 0;
+  };
+
+  for (const track of tracks) {
+    const length = lengths[track.id];
+    if (length === undefined) continue;
+
+    if (isOverlay(track)) {
+      pendingOverlays.push(track);
+      continue;
+    }
+
+    const clip: TimelineClip = { trackId: track.id, name: track.name, type: track.type, layer: 'main', start: cursor, length, fadeIn: null, fadeOut: null };
+
+    if (previous) {
+      const rule = resolveTransition(crossfade, previous.track, track);
+      // A track can't spend more than half its length in each transition
+      const fadeLength = Math.min(Math.round(rule.duration * sampleRate), Math.floor(previous.clip.length / 2), Math.floor(length / 2));
+      if (fadeLength > 0) {
+        previous.clip.fadeOut = { length: fadeLength, curve: rule.curve };
+        clip.fadeIn = { length: fadeLength, curve: rule.curve };
+        if (rule.overlap) clip.start -= fadeLength;
+      }
+    }
+
+    clips.push(clip);
+    placeOverlays(clip.start + Math.min(leadIn, length));
+    previous = { track, clip };
+    cursor = clip.start + length;
+  }
+
+  // Voiceovers after the last song go over its outro
+  if (pendingOverlays.length > 0) {
+    const total = pendingOverlays.reduce((sum, t) => sum + (lengths[t.id] ?? 0), 0);
+    placeOverlays(Math.max(0, cursor - total - leadIn));
+  }
+
+  const duckRegions = clips
+    .filter(c => c.layer === 'overlay')
+    .map(c => ({ start: c.start, end: c.start + c.length }));
+
+  return {
+    sampleRate,
+    length: clips.reduce((max, c) => Math.max(max, c.start + c.length), 0),
+    clips: clips.sort((a, b) => a.start - b.start),
+    duckRegions,
+  };
+};
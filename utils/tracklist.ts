@@ -0,0 +1,120 @@
+import { Timeline, Track } from '../types';
+import { formatDuration } from './audio';
+import { downloadBlob } from './exportSink';
+
+export interface TracklistEntry {
+  name: string;
+  fileName: string | null; // Null for generated audio such as AI voiceovers
+  type: Track['type'];
+  layer: 'main' | 'overlay';
+  start: number; // in seconds, in the exported file
+  duration: number; // in seconds, as it plays in the exported file
+}
+
+/**
+ * What plays when in the exported file. Comes from the merged timeline, so trims,
+ * crossfade overlaps and inserted announcements are all reflected.
+ */
+export const timelineTracklist = (timeline: Timeline, tracks: Map<string, Track>): TracklistEntry[] =>
+  timeline.clips.map(clip => ({
+    name: clip.name,
+    fileName: tracks.get(clip.trackId)?.file?.name ?? null,
+    type: clip.type,
+    layer: clip.layer,
+    start: clip.start / timeline.sampleRate,
+    duration: clip.length / timeline.sampleRate,
+  }));
+
+// CUE times are mm:ss:ff with 75 frames per second; minutes may go past 99
+const cueTime = (seconds: number): string => {
+  const frames = Math.round(seconds * 75);
+  const m = Math.floor(frames / (75 * 60));
+  const s = Math.floor(frames / 75) % 60;
+  const f = frames % 75;
+  return [m, s, f].map(n => n.toString().padStart(2, '0')).join(':');
+};
+
+const cueString = (text: string) => `"${text.replace(/"/g, "'")}"`;
+
+/**
+ * CUE sheet for the exported file. Tracks can't overlap in a cue sheet, so
+ * voiceovers playing over the music are noted as REM lines under the song they play on.
+ */
+export const toCueSheet = (entries: TracklistEntry[], info: { title: string, performer: string, fileName: string }): string => {
+  const fileType = info.fileName.toLowerCase().endsWith('.wav') ? 'WAVE' : 'MP3';
+  const lines = [
+    `PERFORMER ${cueString(info.performer)}`,
+    `TITLE ${cueString(info.title)}`,
+    `FILE ${cueString(info.fileName)} ${fileType}`,
+  ];
+  let number = 0;
+  for (const entry of entries) {
+    if (entry.layer === 'overlay') {
+      lines.push(`    REM VOICEOVER ${cueTime(entry.start)} ${cueString(entry.name)}`);
+      continue;
+    }
+    number++;
+    lines.push(
+      `  TRACK ${number.toString().padStart(2, '0')} AUDIO`,
+      `    TITLE ${cueString(entry.name)}`,
+      `    PERFORMER ${cueString(info.performer)}`,
+      // The first index has to be at the very start of the file
+      `    INDEX 01 ${number === 1 ? '00:00:00' : cueTime(entry.start)}`
+    );
+  }
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Extended M3U playlist of the original files, in the order they play.
+ */
+export const toM3u8 = (entries: TracklistEntry[]): string => {
+  const lines = ['#EXTM3U'];
+  for (const entry of entries) {
+    lines.push(`#EXTINF:${Math.round(entry.duration)},${entry.name}`);
+    // Generated audio has no file to point at
+    lines.push(entry.fileName ?? `# ${entry.name} (generated)`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+export const toJson = (entries: TracklistEntry[]): string => JSON.stringify(entries, null, 2);
+
+export const toCsv = (entries: TracklistEntry[]): string => {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const rows = entries.map((e, i) => [
+    i + 1,
+    quote(e.name),
+    quote(e.fileName ?? ''),
+    e.type,
+    e.layer,
+    e.start.toFixed(3),
+    formatDuration(e.start),
+    e.duration.toFixed(3),
+  ].join(','));
+  return ['index,name,file,type,layer,start_seconds,start,duration_seconds', ...rows].join('\n') + '\n';
+};
+
+export interface TracklistFormat {
+  extension: string;
+  mimeType: string;
+  /** The tracklist of `fileName`, the exported audio it goes next to. */
+  build: (entries: TracklistEntry[], fileName: string, performer: string) => string;
+}
+
+// File name without its extension, also what companion files are named after
+export const exportBaseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Companion files offered next to a finished export
+export const TRACKLIST_FORMATS: TracklistFormat[] = [
+  { extension: 'cue', mimeType: 'application/x-cue', build: (entries, fileName, performer) => toCueSheet(entries, { title: exportBaseName(fileName), performer, fileName }) },
+  { extension: 'm3u8', mimeType: 'audio/x-mpegurl', build: toM3u8 },
+  { extension: 'json', mimeType: 'application/json', build: toJson },
+  { extension: 'csv', mimeType: 'text/csv', build: toCsv },
+];
+
+/**
+ * Offers a generated text file as a download.
+ */
+export const downloadText = (fileName: string, content: string, mimeType: string) =>
+  downloadBlob(fileName, new Blob([content], { type: `${mimeType};charset=utf-8` }));
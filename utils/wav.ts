@@ -0,0 +1,107 @@
+// The RIFF size fields are 32-bit and count the header after them too
+export const MAX_WAV_DATA_BYTES = 0xffffffff - 36;
+
+/**
+ * Builds a 44-byte RIFF/WAVE header for integer PCM.
+ * The data size has to be known up front, so streamed exports compute it from the timeline length.
+ */
+export const wavHeader = (dataBytes: number, sampleRate: number, channels: number, bitDepth: 16 | 24): Uint8Array => {
+  if (dataBytes > MAX_WAV_DATA_BYTES) throw new Error('Audio is too long for a WAV file (over 4 GB)');
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const blockAlign = channels * bitDepth / 8;
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  return new Uint8Array(header);
+};
+
+/**
+ * Interleaves float channels into little-endian 16 or 24-bit PCM.
+ */
+export const encodeWavSamples = (channels: Float32Array[], bitDepth: 16 | 24): Uint8Array => {
+  const length = channels[0].length;
+  const bytesPerSample = bitDepth / 8;
+  const out = new Uint8Array(length * channels.length * bytesPerSample);
+  const view = new DataView(out.buffer);
+  const scale = bitDepth === 16 ? 32767 : 8388607;
+  let offset = 0;
+
+  for (let i = 0; i < length; i++) {
+    for (const channel of channels) {
+      const s = Math.round(Math.max(-1, Math.min(1, channel[i])) * scale);
+      if (bitDepth === 16) {
+        view.setInt16(offset, s, true);
+      } else {
+        view.setUint8(offset, s & 0xff);
+        view.setUint8(offset + 1, (s >> 8) & 0xff);
+        view.setUint8(offset + 2, (s >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return out;
+};
+
+/**
+ * Reads a RIFF/WAVE file: integer PCM of 8 to 32 bits or 32/64-bit float, including
+ * WAVE_FORMAT_EXTENSIBLE. For where there is no Web Audio decoder, e.g. on the command line.
+ */
+export const decodeWav = (bytes: Uint8Array): { sampleRate: number, channels: Float32Array[] } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.length < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') throw new Error('Not a WAV file');
+
+  let format: { code: number, channels: number, sampleRate: number, bitDepth: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = tag(offset);
+    // Streamed writers leave the size at 0 or 0xFFFFFFFF, the data then runs to the end
+    let size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      let code = view.getUint16(body, true);
+      if (code === 0xfffe) code = view.getUint16(body + 24, true); // Extensible: the sub-format GUID starts with the code
+      format = { code, channels: view.getUint16(body + 2, true), sampleRate: view.getUint32(body + 4, true), bitDepth: view.getUint16(body + 14, true) };
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data before format');
+      if (size === 0 || body + size > bytes.length) size = bytes.length - body;
+      const { code, channels: count, sampleRate, bitDepth } = format;
+      if (code !== 1 && code !== 3) throw new Error(`Unsupported WAV encoding ${code}`);
+      const bytesPerSample = bitDepth / 8;
+      const frames = Math.floor(size / (bytesPerSample * count));
+      const channels = Array.from({ length: count }, () => new Float32Array(frames));
+      const read = code === 3
+        ? (at: number) => bitDepth === 64 ? view.getFloat64(at, true) : view.getFloat32(at, true)
+        : bitDepth === 8 ? (at: number) => (view.getUint8(at) - 128) / 128
+        : bitDepth === 16 ? (at: number) => view.getInt16(at, true) / 32768
+        : bitDepth === 24 ? (at: number) => ((view.getUint8(at + 2) << 24 | view.getUint8(at + 1) << 16 | view.getUint8(at) << 8) >> 8) / 8388608
+        : (at: number) => view.getInt32(at, true) / 2147483648;
+      let at = body;
+      for (let i = 0; i < frames; i++) {
+        for (let c = 0; c < count; c++) {
+          channels[c][i] = read(at);
+          at += bytesPerSample;
+        }
+      }
+      return { sampleRate, channels };
+    }
+    offset = body + size + (size & 1); // Chunks are padded to an even length
+  }
+  throw new Error('WAV file has no data');
+};
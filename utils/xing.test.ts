@@ -0,0 +1,79 @@
+import { createMp3Encoder } from 'wasm-media-encoders';
+import { describe, expect, it } from 'vitest';
+import { createXingWriter } from './xing';
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// A few seconds of VBR from the same LAME build the export uses, as it hands out its chunks
+const encodeVbr = async (seconds: number, sampleRate: number, vbrQuality: number) => {
+  const encoder = await createMp3Encoder();
+  encoder.configure({ channels: 2, sampleRate, vbrQuality });
+  const chunks: Uint8Array[] = [];
+  const block = 4096;
+  for (let start = 0; start < seconds * sampleRate; start += block) {
+    // A sweep, so the bitrate changes along the way
+    const channel = Float32Array.from({ length: block }, (_, i) => 0.3 * Math.sin((start + i) * (start + i) / (seconds * sampleRate * 20)));
+    chunks.push(encoder.encode([channel, channel]).slice());
+  }
+  chunks.push(encoder.finalize().slice());
+  return chunks;
+};
+
+const readXing = (file: Uint8Array) => {
+  const at = new TextDecoder('latin1').decode(file.subarray(0, 200)).indexOf('Xing');
+  const view = new DataView(file.buffer, file.byteOffset + at);
+  return { at, flags: view.getUint32(4), frames: view.getUint32(8), bytes: view.getUint32(12), toc: Array.from(file.subarray(at + 16, at + 116)) };
+};
+
+describe('createXingWriter', () => {
+  it('counts the frames and bytes of the whole stream', async () => {
+    const xing = createXingWriter();
+    const stream = concat((await encodeVbr(4, 44100, 2)).map(xing.add));
+    const frame = xing.frame();
+    stream.set(frame);
+    const { at, flags, frames, bytes, toc } = readXing(stream);
+
+    expect(at).toBeGreaterThan(0);
+    expect(flags).toBe(7);
+    expect(bytes).toBe(stream.length);
+    // 1152 samples per MPEG-1 frame, plus the encoder's delay and padding
+    expect(frames * 1152 / 44100).toBeCloseTo(4, 0);
+    expect(toc[0]).toBe(Math.floor(256 * frame.length / stream.length));
+    expect(toc.every((value, i) => i === 0 || value >= toc[i - 1])).toBe(true);
+  });
+
+  it('follows the lower sample rate LAME picks at low qualities', async () => {
+    const xing = createXingWriter();
+    const chunks = (await encodeVbr(2, 44100, 9)).map(xing.add);
+    const frame = xing.frame();
+    const firstAudio = chunks.find(chunk => chunk.length > 0)!.subarray(frame.length);
+    // Same version and sample rate bits as the audio that follows
+    expect(frame[1] & 0xfe).toBe(firstAudio[1] & 0xfe);
+    expect(frame[2] & 0x0c).toBe(firstAudio[2] & 0x0c);
+    expect(readXing(frame).frames * 576 / 22050).toBeCloseTo(2, 0);
+  });
+
+  it('finds frame headers split across chunks', async () => {
+    const stream = concat(await encodeVbr(2, 48000, 4));
+    const whole = createXingWriter();
+    whole.add(stream);
+    const pieces = createXingWriter();
+    for (let start = 0; start < stream.length; start += 7) pieces.add(stream.subarray(start, start + 7));
+    expect(pieces.frame()).toEqual(whole.frame());
+  });
+
+  it('leaves streams it does not understand alone', () => {
+    const xing = createXingWriter();
+    const chunk = new Uint8Array([1, 2, 3, 4, 5]);
+    expect(xing.add(chunk)).toBe(chunk);
+    expect(xing.frame().length).toBe(0);
+  });
+});
@@ -0,0 +1,146 @@
+// Layer III bitrates in kbps by index, for MPEG-1 and for MPEG-2/2.5
+const BITRATES = {
+  1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+// By the version bits of the frame header: 0 = MPEG-2.5, 2 = MPEG-2, 3 = MPEG-1
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+// 'Xing', flags, frame count, byte count and the 100-entry seek table
+const XING_BYTES = 4 + 4 + 4 + 4 + 100;
+const XING_FLAGS = 0x1 | 0x2 | 0x4;
+// Frame offsets kept for the seek table before every other one is dropped
+const MAX_MARKS = 2048;
+
+interface FrameHeader {
+  version: number;
+  sampleRateIndex: number;
+  mono: boolean;
+  length: number; // in bytes, header included
+}
+
+const readHeader = (b0: number, b1: number, b2: number, b3: number): FrameHeader | null => {
+  const version = (b1 >> 3) & 0x3;
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 0x3;
+  // Frame sync, layer III, no free-format or reserved values
+  if (b0 !== 0xff || (b1 & 0xe0) !== 0xe0 || ((b1 >> 1) & 0x3) !== 1 || version === 1
+    || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+  const mpeg1 = version === 3;
+  const bitrate = BITRATES[mpeg1 ? 1 : 2][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  const padding = (b2 >> 1) & 0x1;
+  return { version, sampleRateIndex, mono: b3 >> 6 === 3, length: Math.floor((mpeg1 ? 144 : 72) * bitrate / sampleRate) + padding };
+};
+
+// Where the Xing data starts: after the header and the side info, whose size depends on version and channels
+const xingOffset = ({ version, mono }: FrameHeader) => 4 + (version === 3 ? (mono ? 17 : 32) : (mono ? 9 : 17));
+
+export interface XingWriter {
+  /** Passes encoded bytes through, with an empty Xing frame in front of the first ones. */
+  add: (chunk: Uint8Array) => Uint8Array;
+  /** The Xing frame filled in with what the whole stream holds, to write over the empty one. */
+  frame: () => Uint8Array;
+}
+
+/**
+ * Follows a VBR MP3 stream frame by frame as it is encoded, for the Xing frame at its start that
+ * tells players how long the file is and where to seek. Without one they guess the length from
+ * the first frame's bitrate. The Xing frame takes the version, sample rate and channel mode of the
+ * first frame, since LAME may pick a lower sample rate than it was given at low VBR qualities.
+ */
+export const createXingWriter = (): XingWriter => {
+  let template: Uint8Array | null = null;
+  let first: FrameHeader | null = null;
+  let broken = false;
+  let total = 0; // Bytes of audio seen, the Xing frame not included
+  let next = 0; // Where the next frame header starts
+  let frames = 0;
+  let tail = new Uint8Array(0); // The last bytes before `total`, for a header split across chunks
+  // Offsets of every `stride`th frame, enough to build the seek table from
+  let marks: number[] = [];
+  let stride = 1;
+
+  const track = (chunk: Uint8Array) => {
+    const base = total;
+    const byteAt = (position: number) => position >= base ? chunk[position - base] : tail[tail.length - (base - position)];
+    while (!broken && next + 4 <= base + chunk.length) {
+      const header = readHeader(byteAt(next), byteAt(next + 1), byteAt(next + 2), byteAt(next + 3));
+      if (!header) {
+        broken = true;
+        break;
+      }
+      if (frames % stride === 0) marks.push(next);
+      if (marks.length > MAX_MARKS) {
+        marks = marks.filter((_, i) => i % 2 === 0);
+        stride *= 2;
+      }
+      frames++;
+      next += header.length;
+    }
+    total += chunk.length;
+    const keep = new Uint8Array(Math.min(3, tail.length + chunk.length));
+    keep.set([...tail, ...chunk.subarray(Math.max(0, chunk.length - 3))].slice(-keep.length));
+    tail = keep;
+  };
+
+  // The smallest frame that holds the Xing data, in the format of the stream
+  const emptyFrame = (chunk: Uint8Array): Uint8Array | null => {
+    const header = chunk.length >= 4 ? readHeader(chunk[0], chunk[1], chunk[2], chunk[3]) : null;
+    if (!header) return null;
+    for (let index = 1; index < 15; index++) {
+      const b2 = (index << 4) | (header.sampleRateIndex << 2);
+      // Protection bit set: no CRC after the header
+      const frame = readHeader(0xff, chunk[1] | 0x1, b2, chunk[3])!;
+      if (frame.length < xingOffset(header) + XING_BYTES) continue;
+      const bytes = new Uint8Array(frame.length);
+      bytes.set([0xff, chunk[1] | 0x1, b2, chunk[3]]);
+      bytes.set(Array.from('Xing', c => c.charCodeAt(0)), xingOffset(header));
+      first = header;
+      return bytes;
+    }
+    return null;
+  };
+
+  return {
+    add: (chunk) => {
+      if (chunk.length === 0) return chunk;
+      if (!template && !broken) {
+        template = emptyFrame(chunk);
+        if (!template) {
+          broken = true;
+          return chunk;
+        }
+        track(chunk);
+        const out = new Uint8Array(template.length + chunk.length);
+        out.set(template);
+        out.set(chunk, template.length);
+        return out;
+      }
+      track(chunk);
+      return chunk;
+    },
+
+    frame: () => {
+      if (!template || !first) return new Uint8Array(0);
+      const frame = template.slice();
+      if (broken) return frame; // Left empty rather than wrong
+      const view = new DataView(frame.buffer);
+      const offset = xingOffset(first);
+      const bytes = frame.length + total;
+      view.setUint32(offset + 4, XING_FLAGS);
+      view.setUint32(offset + 8, frames);
+      view.setUint32(offset + 12, Math.min(0xffffffff, bytes));
+      for (let i = 0; i < 100; i++) {
+        // Frames all last as long, so a percentage of the time is the same percentage of the frames
+        const mark = marks[Math.min(marks.length - 1, Math.floor(Math.floor(i / 100 * frames) / stride))] ?? 0;
+        frame[offset + 16 + i] = Math.min(255, Math.floor(256 * (frame.length + mark) / bytes));
+      }
+      return frame;
+    },
+  };
+};
@@ -0,0 +1,129 @@
+export interface ZipEntry {
+  name: string; // Path inside the archive, '/' separated
+  data: Blob;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+const DOS_DATE_1980 = 0x21; // 1980-01-01, the earliest date a zip can hold
+
+/**
+ * Packs entries into a zip without compression. Audio doesn't shrink anyway, and storing
+ * lets the archive reference the source Blobs instead of copying them into memory.
+ * Archives are limited to 4 GB, there is no Zip64 support.
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(new Uint8Array(await entry.data.arrayBuffer()));
+    const size = entry.data.size;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, UTF8_NAMES, true);
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, 0, true); // time
+    local.setUint16(12, DOS_DATE_1980, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const record = new DataView(new ArrayBuffer(46));
+    record.setUint32(0, CENTRAL_HEADER, true);
+    record.setUint16(4, 20, true); // version made by
+    record.setUint16(6, 20, true); // version needed
+    record.setUint16(8, UTF8_NAMES, true);
+    record.setUint16(10, 0, true);
+    record.setUint16(12, 0, true);
+    record.setUint16(14, DOS_DATE_1980, true);
+    record.setUint32(16, crc, true);
+    record.setUint32(20, size, true);
+    record.setUint32(24, size, true);
+    record.setUint16(28, name.length, true);
+    record.setUint32(42, offset, true); // extra, comment, disk and attributes stay 0
+    central.push(new Uint8Array(record.buffer), name);
+
+    parts.push(local.buffer, name, entry.data);
+    offset += 30 + name.length + size;
+    if (offset > 0xffffffff) throw new Error('Project is too large for a zip file (over 4 GB)');
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+/**
+ * Lists the files in a zip written by `createZip` (or any other stored, non-Zip64 zip).
+ * Entries are returned as slices of the archive, nothing is read until they are used.
+ */
+export const readZip = async (zip: Blob): Promise<Map<string, Blob>> => {
+  // The end record sits in the last 22 bytes, plus up to 64 KB of archive comment
+  const tailStart = Math.max(0, zip.size - 22 - 0xffff);
+  const tail = new DataView(await zip.slice(tailStart).arrayBuffer());
+  let endAt = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) { endAt = i; break; }
+  }
+  if (endAt < 0) throw new Error('Not a zip file');
+
+  const count = tail.getUint16(endAt + 10, true);
+  const centralSize = tail.getUint32(endAt + 12, true);
+  const centralOffset = tail.getUint32(endAt + 16, true);
+  const central = new DataView(await zip.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const decoder = new TextDecoder();
+  const files = new Map<string, Blob>();
+
+  let p = 0;
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(p, true) !== CENTRAL_HEADER) throw new Error('Corrupt zip file');
+    const method = central.getUint16(p + 10, true);
+    const size = central.getUint32(p + 20, true);
+    const nameLength = central.getUint16(p + 28, true);
+    const extraLength = central.getUint16(p + 30, true);
+    const commentLength = central.getUint16(p + 32, true);
+    const localOffset = central.getUint32(p + 42, true);
+    const name = decoder.decode(new Uint8Array(central.buffer, p + 46, nameLength));
+    if (method !== 0) throw new Error(`Compressed zip entries are not supported (${name})`);
+
+    // The local header can carry a different extra field than the central one
+    const local = new DataView(await zip.slice(localOffset, localOffset + 30).arrayBuffer());
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    files.set(name, zip.slice(dataStart, dataStart + size));
+
+    p += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+};
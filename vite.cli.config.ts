@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// The command-line build: one ES module for Node, dependencies stay in node_modules
+export default defineConfig({
+  build: {
+    ssr: 'cli/storecast.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'storecast.mjs',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
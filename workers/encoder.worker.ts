@@ -0,0 +1,50 @@
+import { ExportSettings } from '../types';
+import { BlockEncoder, createBlockEncoder } from '../utils/encoder';
+
+export type EncoderRequest =
+  | { type: 'init', settings: ExportSettings, totalSamples: number }
+  | { type: 'encode', left: Float32Array, right: Float32Array }
+  | { type: 'flush' }
+  | { type: 'finalHeader' };
+
+export type EncoderResponse =
+  | { type: 'chunk', data: Uint8Array }
+  | { type: 'error', message: string };
+
+/**
+ * Converts and encodes mixed float blocks off the main thread.
+ * Requests are answered strictly in order, one response per request.
+ */
+let encoder: BlockEncoder | null = null;
+let queue: Promise<void> = Promise.resolve();
+
+const reply = (response: EncoderResponse) => {
+  self.postMessage(response, { transfer: response.type === 'chunk' ? [response.data.buffer] : [] });
+};
+
+const handle = async (request: EncoderRequest) => {
+  try {
+    if (request.type === 'init') {
+      encoder = await createBlockEncoder(request.settings, request.totalSamples);
+      reply({ type: 'chunk', data: encoder.header });
+      return;
+    }
+    if (!encoder) throw new Error('Encoder used before init');
+
+    if (request.type === 'encode') {
+      reply({ type: 'chunk', data: encoder.encode({ left: request.left, right: request.right }) });
+    } else if (request.type === 'flush') {
+      reply({ type: 'chunk', data: encoder.finish() });
+    } else {
+      reply({ type: 'chunk', data: encoder.finalHeader() });
+      encoder = null;
+    }
+  } catch (e: any) {
+    reply({ type: 'error', message: e.message || String(e) });
+  }
+};
+
+self.onmessage = (event: MessageEvent<EncoderRequest>) => {
+  // Setting up the WASM encoder is async, so keep later requests waiting behind it
+  queue = queue.then(() => handle(event.data));
+};